@@ -0,0 +1,72 @@
+import { mkdtempSync, writeFileSync, readFileSync, existsSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Command } from 'commander';
+
+describe('css2scss CLI', () => {
+  let directory: string;
+  let log: jest.SpyInstance;
+
+  // Commander keeps parsed option values on the command, so every run gets a fresh program
+  const run = async (...args: string[]) => {
+    let program!: Command;
+    jest.isolateModules(() => {
+      ({ program } = require('../cli'));
+    });
+    await program.parseAsync(args, { from: 'user' });
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'css2scss-'));
+    log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should pass options given after a subcommand to that subcommand', async () => {
+    const input = join(directory, 'a.css');
+    writeFileSync(input, '.a { color: red; }\n.b { color: red; }\n');
+    
+    // Merging the two rules would make the verification fail, so both options must reach `verify`
+    await run('verify', input, '--no-dedupe', '--quiet');
+    
+    expect(process.exit).not.toHaveBeenCalled();
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  test('should apply --quiet and --verbose to batch and verify', async () => {
+    writeFileSync(join(directory, 'a.css'), '.a { color: red; }\n');
+    writeFileSync(join(directory, 'b.css'), '.b { margin: 0; }\n');
+    
+    await run('batch', directory, '--quiet');
+    expect(log).not.toHaveBeenCalled();
+    
+    await run('verify', join(directory, 'a.css'), '--verbose');
+    expect(log.mock.calls.some(([message]) => /^⏱️ .*ms$/.test(String(message)))).toBe(true);
+  });
+
+  test('should write source maps for every file of a batch run', async () => {
+    writeFileSync(join(directory, 'a.css'), '.a { color: red; }\n');
+    
+    await run('batch', directory, '--source-map', '--quiet');
+    
+    expect(existsSync(join(directory, 'a.scss.map'))).toBe(true);
+    expect(readFileSync(join(directory, 'a.scss'), 'utf-8')).toContain('/*# sourceMappingURL=a.scss.map */');
+  });
+
+  test('should reject options --modules cannot honor', async () => {
+    const input = join(directory, 'a.css');
+    writeFileSync(input, '.a { color: red; }\n');
+    
+    await expect(run(input, '--modules', '--report')).rejects.toThrow('process.exit(1)');
+    await expect(run(input, '--modules', '--source-map')).rejects.toThrow('process.exit(1)');
+    expect(existsSync(join(directory, 'a'))).toBe(false);
+  });
+});
@@ -1,4 +1,5 @@
-import { CSSToSCSSConverter } from '../index';
+import { SourceMapConsumer } from 'source-map-js';
+import { CSSToSCSSConverter, parseSCSSTokens, parseJSONTokens } from '../index';
 
 describe('VariableEnhancedCSSToSCSSConverter', () => {
   let converter: CSSToSCSSConverter;
@@ -211,4 +212,1118 @@ describe('VariableEnhancedCSSToSCSSConverter', () => {
     expect(result).toContain('      &__button {');
     expect(result).toContain('        &:hover {');
   });
-});
\ No newline at end of file
+
+  test('should keep @supports, @container and @layer contexts including nested at-rules', async () => {
+    const contextConverter = new CSSToSCSSConverter({
+      enableVariableExtraction: false,
+      enableBEM: false
+    });
+    
+    const css = `
+.grid {
+  display: block;
+}
+
+@media (min-width: 768px) {
+  .grid {
+    gap: 1rem;
+  }
+
+  @supports (display: grid) {
+    .grid {
+      display: grid;
+    }
+  }
+}
+
+@container card (min-width: 400px) {
+  .title {
+    font-size: 2rem;
+  }
+}
+
+@layer base {
+  .reset {
+    margin: 0;
+  }
+}
+
+.after {
+  color: red;
+}
+    `.trim();
+    
+    const result = await contextConverter.convert(css);
+    
+    expect(result).toContain('@media (min-width:768px) {\n  .grid {\n    gap: 1rem;\n  }');
+    expect(result).toContain('  @supports (display:grid) {\n    .grid {\n      display: grid;\n    }\n  }');
+    expect(result).toContain('@container card (min-width: 400px) {\n  .title {');
+    expect(result).toContain('@layer base {\n  .reset {\n    margin: 0;');
+    
+    // Rules after a conditional group must not inherit its context
+    expect(result).toMatch(/^\.after \{/m);
+  });
+
+  test('should nest media queries inside their selectors', async () => {
+    const nestingConverter = new CSSToSCSSConverter({
+      enableMediaQueryNesting: true,
+      enableVariableExtraction: false
+    });
+    
+    const css = `
+.card {
+  padding: 1rem;
+}
+
+.card__title {
+  font-size: 1.2rem;
+}
+
+.nav ul {
+  margin: 0;
+}
+
+@media (min-width: 768px) {
+  .card {
+    padding: 2rem;
+  }
+
+  .card__title {
+    font-size: 1.5rem;
+  }
+
+  .nav ul {
+    margin: 1rem;
+  }
+}
+    `.trim();
+    
+    const result = await nestingConverter.convert(css);
+    
+    expect(result).toContain('  &__title {\n    font-size: 1.2rem;\n\n    @media (min-width:768px) {\n      font-size: 1.5rem;\n    }');
+    expect(result).toContain('  @media (min-width:768px) {\n    padding: 2rem;\n  }');
+    expect(result).toContain('  & ul {\n    margin: 0;\n\n    @media (min-width:768px) {\n      margin: 1rem;\n    }');
+    expect(result).not.toMatch(/^@media/m);
+  });
+
+  test('should not nest media queries ahead of base rules that would override them', async () => {
+    const nestingConverter = new CSSToSCSSConverter({
+      enableMediaQueryNesting: true,
+      enableVariableExtraction: false
+    });
+    
+    const css = `
+.box { padding: 4px; }
+.other { padding: 8px; }
+
+@media (max-width: 768px) {
+  .box { padding: 2px; }
+}
+    `.trim();
+    
+    const result = await nestingConverter.convertWithReport(css);
+    
+    expect(result.scss).toContain('.box {\n  padding: 4px;\n}');
+    expect(result.scss).toMatch(/\.other \{[^}]*\}\s*@media \(max-width:768px\) \{\n  \.box \{\n    padding: 2px;/);
+    expect((await nestingConverter.verify(css)).equivalent).toBe(true);
+    
+    // Without a place that keeps the order, the rule is nested and reported
+    const reordered = await nestingConverter.convertWithReport('@media (min-width: 768px) {\n  .only { display: none; }\n}\n\n.item { display: block; }');
+    expect(reordered.warnings).toEqual([expect.objectContaining({ type: 'cascade-reordered', selector: '.only' })]);
+  });
+
+  test('should only merge duplicates when the cascade is preserved in cascade-safe mode', async () => {
+    const safeConverter = new CSSToSCSSConverter({
+      duplicateMergeMode: 'cascade-safe',
+      enableVariableExtraction: false,
+      enableBEM: false
+    });
+    
+    const css = `
+.alert {
+  color: red;
+}
+
+.notice {
+  color: blue;
+}
+
+.error {
+  color: red;
+}
+
+.btn {
+  padding: 10px;
+}
+
+.spacer {
+  margin: 0;
+}
+
+.link {
+  padding: 10px;
+}
+    `.trim();
+    
+    const result = await safeConverter.convert(css);
+    
+    // .notice overrides color between .alert and .error, so they stay apart
+    expect(result).not.toContain('.alert, .error');
+    expect(result.indexOf('.notice {')).toBeLessThan(result.indexOf('.error {'));
+    
+    // Nothing between .btn and .link touches padding
+    expect(result).toContain('.btn, .link {');
+  });
+
+  test('should treat overrides under a media query as conflicts and keep every merged selector', async () => {
+    const css = `
+.a { margin: 0; }
+@media (min-width: 1px) {
+  .b { margin: 1px; }
+}
+.c { margin: 0; }
+    `.trim();
+    
+    const ungrouped = new CSSToSCSSConverter({
+      duplicateMergeMode: 'cascade-safe',
+      enableVariableExtraction: false,
+      enableMediaQueryGrouping: false,
+      enableBEM: false
+    });
+    const result = await ungrouped.convert(css);
+    
+    expect(result).not.toContain('.a, .c');
+    expect((await ungrouped.verify(css)).equivalent).toBe(true);
+    
+    // Merged selector lists are not BEM blocks, so BEM nesting must not drop .x
+    const listCSS = '.d { color: red; }\n.x { color: red; }';
+    const withBEM = new CSSToSCSSConverter({ duplicateMergeMode: 'cascade-safe', enableVariableExtraction: false });
+    expect(await withBEM.convert(listCSS)).toContain('.d, .x {');
+    expect((await withBEM.verify(listCSS)).equivalent).toBe(true);
+  });
+
+  test('should map generated selectors and declarations back to the input CSS', async () => {
+    const mapConverter = new CSSToSCSSConverter({
+      sourceMap: 'file',
+      sourceFileName: 'card.css',
+      outputFileName: 'card.scss'
+    });
+    
+    const css = `
+.card {
+  color: #333;
+}
+
+.card__title {
+  color: #333;
+  font-size: 20px;
+}
+    `.trim();
+    
+    const { scss, map } = await mapConverter.convertWithSourceMap(css);
+    const consumer = new SourceMapConsumer(map);
+    const lines = scss.split('\n');
+    
+    const originalOf = (text: string) => {
+      const line = lines.findIndex(l => l.trim() === text) + 1;
+      return consumer.originalPositionFor({ line, column: lines[line - 1].indexOf(text.charAt(0)) });
+    };
+    
+    expect(map.sources).toEqual(['card.css']);
+    expect(scss).toContain('/*# sourceMappingURL=card.scss.map */');
+    expect(scss).not.toContain('\u0000');
+    expect(originalOf('&__title {')).toMatchObject({ source: 'card.css', line: 5, column: 0 });
+    expect(originalOf('font-size: 20px;')).toMatchObject({ line: 7, column: 2 });
+  });
+
+  test('should return a structured report with variables, merges, BEM blocks and warnings', async () => {
+    const css = `
+.card {
+  color: #007bff;
+}
+
+.card__title {
+  color: #007bff;
+}
+
+.card--active {
+  display: -webkit-box;
+  display: flex;
+}
+
+.badge {
+  display: flex;
+}
+
+@import url("theme.css");
+    `.trim();
+    
+    const report = await converter.convertWithReport(css);
+    
+    expect(report.scss).toBe(await new CSSToSCSSConverter().convert(css));
+    expect(report.variables).toContainEqual(expect.objectContaining({ value: '#007bff', occurrences: 2 }));
+    expect(report.mergedGroups).toContainEqual({ selectors: ['.card--active', '.badge'], context: '' });
+    expect(report.bemBlocks).toContainEqual(expect.objectContaining({ block: 'card', elements: ['title'] }));
+    expect(report.warnings).toContainEqual(expect.objectContaining({
+      type: 'dropped-declaration',
+      selector: '.card--active',
+      line: 10
+    }));
+    expect(report.warnings).toContainEqual(expect.objectContaining({ type: 'statement-moved', line: 18 }));
+    expect(report.timings.total).toBeGreaterThanOrEqual(report.timings.parse);
+  });
+
+  test('should stay silent by default and route notices to a custom logger', async () => {
+    const css = `
+.a { color: red; }
+.b { color: red; }
+    `.trim();
+    
+    const consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    await converter.convert(css);
+    expect(consoleSpy).not.toHaveBeenCalled();
+    consoleSpy.mockRestore();
+    
+    const messages: string[] = [];
+    const logger = {
+      debug: (message: string) => messages.push(`debug ${message}`),
+      info: (message: string) => messages.push(`info ${message}`),
+      warn: (message: string) => messages.push(`warn ${message}`)
+    };
+    await new CSSToSCSSConverter({ logger }).convert(css);
+    
+    expect(messages).toContainEqual(expect.stringMatching(/^info .*Extracted variable: \$color-red/));
+    expect(messages).toContainEqual(expect.stringMatching(/^info .*Merged 2 duplicate rules: \.a, \.b/));
+    expect(messages).toContainEqual(expect.stringMatching(/^debug .*parse: /));
+  });
+
+  test('should not leak variables between conversions on the same instance', async () => {
+    const first = `
+.a { color: #ff0000; }
+.b { color: #ff0000; }
+    `.trim();
+    
+    const second = `
+.c { margin: 8px; }
+.d { margin: 8px; }
+    `.trim();
+    
+    const expectedSecond = await new CSSToSCSSConverter().convert(second);
+    
+    await converter.convert(first);
+    expect(await converter.convert(second)).toBe(expectedSecond);
+    expect(expectedSecond).not.toContain('#ff0000');
+    
+    const inputs = [first, second, first, second];
+    const sequential: string[] = [];
+    for (const input of inputs) {
+      sequential.push(await new CSSToSCSSConverter().convert(input));
+    }
+    
+    expect(await Promise.all(inputs.map(input => converter.convert(input)))).toEqual(sequential);
+  });
+
+  test('should move values shared across files into a variables partial in batch mode', async () => {
+    const header = `
+.header {
+  color: #007bff;
+  padding: 12px;
+}
+
+.header__nav {
+  padding: 12px;
+}
+    `.trim();
+    
+    const footer = `
+.footer {
+  color: #007bff;
+  margin: 4px;
+}
+
+.footer__links {
+  margin: 4px;
+}
+    `.trim();
+    
+    const result = await converter.convertBatch([header, footer]);
+    
+    expect(result.sharedVariables.map(variable => variable.value)).toEqual(['#007bff']);
+    expect(result.variables).toContain('$color-primary-blue: #007bff;');
+    
+    result.files.forEach(scss => {
+      expect(scss.startsWith(`@use 'variables' as *;`)).toBe(true);
+      expect(scss).toContain('color: $color-primary-blue;');
+      expect(scss).not.toContain('$color-primary-blue: #007bff;');
+    });
+    
+    // Values used by a single file stay local to it
+    expect(result.files[0]).toContain('$p-12px: 12px;');
+    expect(result.files[1]).not.toContain('12px');
+    expect(result.variables).not.toContain('4px');
+  });
+
+  test('should reuse design token names for matching values, including equivalent colors', async () => {
+    const designTokens = parseSCSSTokens(`
+$brand-primary: #007BFF;
+$link-color: $brand-primary !default;
+$space-4: 16px;
+    `);
+    
+    expect(designTokens).toContainEqual({ name: '$link-color', value: '#007BFF' });
+    expect(parseJSONTokens('{ "space": { "4": { "$value": "16px" } } }')).toEqual([{ name: '$space-4', value: '16px' }]);
+    
+    const tokenConverter = new CSSToSCSSConverter({ designTokens, designTokensModule: 'tokens' });
+    
+    const css = `
+.button {
+  background-color: rgb(0, 123, 255);
+  padding: 16px;
+  margin: 8px;
+}
+
+.link {
+  color: #007bff;
+  margin: 8px;
+}
+    `.trim();
+    
+    const result = await tokenConverter.convert(css);
+    
+    expect(result.startsWith(`@use 'tokens' as *;`)).toBe(true);
+    expect(result).toContain('background-color: $brand-primary;');
+    expect(result).toContain('color: $brand-primary;');
+    expect(result).toContain('padding: $space-4;');
+    expect(result).not.toContain('$color-primary-blue');
+    
+    // Unknown values still get generated names
+    expect(result).toContain('$m-8px: 8px;');
+  });
+
+  test('should treat equivalent color notations as one value and optionally merge near-identical shades', async () => {
+    const css = `
+.a { color: #fff; }
+.b { background-color: #FFFFFF; }
+.c { color: white; }
+.d { border-color: rgb(255, 255, 255); }
+.e { color: #333333; }
+.f { color: #343434; }
+    `.trim();
+    
+    const equivalent = await new CSSToSCSSConverter({ enableDuplicateDetection: false }).convert(css);
+    
+    expect(equivalent.match(/^\$color-[\w-]+: /gm)).toHaveLength(1);
+    expect(equivalent).not.toMatch(/^\s+[\w-]+: (#fff|#FFFFFF|white|rgb\(255, 255, 255\));/m);
+    expect(equivalent).toContain('color: #343434;');
+    
+    const report = await new CSSToSCSSConverter({
+      enableDuplicateDetection: false,
+      colorMergeThreshold: 2.3
+    }).convertWithReport(css);
+    
+    expect(report.scss).not.toContain('#343434');
+    expect(report.mergedColors).toEqual([
+      { value: '#333333', merged: [{ value: '#343434', distance: expect.any(Number) }] }
+    ]);
+  });
+
+  test('should derive shades and alpha variants of an extracted color with Sass color functions', async () => {
+    const css = `
+.btn { background-color: #007bff; }
+.btn-primary { background-color: #007bff; }
+.btn:hover { background-color: #0069d9; }
+.btn:active { background-color: rgba(0, 123, 255, .5); }
+    `.trim();
+    
+    const legacyConverter = new CSSToSCSSConverter({ colorFunctions: 'legacy', enableDuplicateDetection: false });
+    const legacy = await legacyConverter.convert(css);
+    
+    expect(legacy).toContain('$color-primary-blue: #007bff;');
+    expect(legacy).toContain('background-color: darken($color-primary-blue, 7.5%);');
+    expect(legacy).toContain('background-color: rgba($color-primary-blue, 0.5);');
+    expect((await legacyConverter.verify(css)).equivalent).toBe(true);
+    
+    const report = await new CSSToSCSSConverter({ colorFunctions: 'module', enableDuplicateDetection: false }).convertWithReport(css);
+    
+    expect(report.scss.startsWith(`@use 'sass:color';`)).toBe(true);
+    expect(report.scss).toContain('background-color: color.adjust($color-primary-blue, $lightness: -7.5%);');
+    expect(report.derivedColors).toContainEqual({ value: 'rgba(0,123,255,.5)', expression: 'color.adjust($color-primary-blue, $alpha: -0.5)' });
+    
+    // Without the option the literals are kept
+    expect(await new CSSToSCSSConverter({ enableDuplicateDetection: false }).convert(css)).toContain('background-color: #0069d9;');
+  });
+
+  test('should extract colors, lengths and font stacks from inside compound values', async () => {
+    const css = `
+.card {
+  border: 1px solid #333;
+  box-shadow: 0 1px 2px rgba(0, 0, 0, .2), 0 0 0 3px #333;
+  font: italic 14px/1.5 "Helvetica Neue", Arial, sans-serif;
+}
+
+.panel {
+  border: 1px solid #333;
+  background: linear-gradient(90deg, #333 0%, white 100%);
+}
+
+.title {
+  font-family: "Helvetica Neue", Arial, sans-serif;
+}
+    `.trim();
+    
+    const tokenConverter = new CSSToSCSSConverter({ enableDuplicateDetection: false });
+    const result = await tokenConverter.convert(css);
+    
+    expect(result).toContain('$color-333: #333;');
+    expect(result).toMatch(/border: \$[\w-]+ solid \$color-333;/);
+    expect(result).toContain(',0 0 0 3px $color-333;');
+    expect(result).toContain('linear-gradient(90deg,$color-333 0%,white 100%)');
+    expect(result).toMatch(/font: italic 14px\/1\.5 (\$font-[\w-]+);/);
+    expect(result).toMatch(/font-family: \$font-[\w-]+;/);
+    expect((await tokenConverter.verify(css)).equivalent).toBe(true);
+  });
+
+  test('should count a value across the properties it is used in', async () => {
+    const css = `
+@font-face {
+  font-family: "Brand";
+  src: url(brand.woff2);
+}
+
+.a { border: 1px solid #333; margin: 8px; }
+.b { box-shadow: 0 1px 2px #333; padding: 8px; }
+.c { color: #333; font: 12px/1.5 "Brand", serif; }
+    `.trim();
+    
+    const result = await converter.convert(css);
+    
+    expect(result).toContain('$color-333: #333;');
+    expect(result).toMatch(/border: \$[\w-]+ solid \$color-333;/);
+    expect(result).toMatch(/box-shadow: 0 \$[\w-]+ 2px \$color-333;/);
+    expect(result).toContain('color: $color-333;');
+    expect(result).toMatch(/margin: (\$[\w-]+);\n[^]*padding: \1;/);
+    expect(result).toContain('font: 12px/1.5 $font-brand,serif;');
+    expect((await converter.verify(css)).equivalent).toBe(true);
+  });
+
+  test('should preserve, convert or bridge custom properties defined on :root', async () => {
+    const css = `
+:root {
+  --brand: #123456;
+  --space: 16px;
+  --surface: white;
+}
+
+.theme-dark {
+  --surface: #000;
+}
+
+.button {
+  color: var(--brand);
+  padding: var(--space) calc(var(--space) * 2);
+  background: var(--surface);
+  margin: var(--gap, 8px);
+}
+
+.link {
+  color: var(--brand, red);
+  margin: var(--gap, 8px);
+}
+    `.trim();
+    
+    const preserved = await new CSSToSCSSConverter({ enableDuplicateDetection: false }).convert(css);
+    
+    expect(preserved).toContain('--brand: #123456;');
+    expect(preserved).toContain('color: var(--brand);');
+    expect(preserved).toContain('margin: var(--gap, $m-8px);');
+    
+    const convertConverter = new CSSToSCSSConverter({ customProperties: 'convert', enableDuplicateDetection: false });
+    const converted = await convertConverter.convertWithReport(css);
+    
+    expect(converted.scss).toContain('$brand: #123456;');
+    expect(converted.scss).toContain('color: $brand;');
+    expect(converted.scss).not.toContain('--brand');
+    expect(converted.scss).toContain('padding: $space calc($space*2);');
+    // --surface is overridden in .theme-dark, so it has to stay a custom property
+    expect(converted.scss).toContain('--surface: white;');
+    expect(converted.scss).toContain('background: var(--surface);');
+    expect(converted.warnings).toContainEqual(expect.objectContaining({ type: 'custom-property-kept' }));
+    expect((await convertConverter.verify(css)).equivalent).toBe(true);
+    
+    const bridgeConverter = new CSSToSCSSConverter({ customProperties: 'bridge', enableDuplicateDetection: false });
+    const bridged = await bridgeConverter.convert(css);
+    
+    expect(bridged).toContain('$brand: #123456;');
+    expect(bridged).toContain('--brand: #{$brand};');
+    expect(bridged).toContain('--surface: #{$surface};');
+    expect(bridged).toContain('--surface: #000;');
+    expect(bridged).toContain('color: var(--brand);');
+    expect((await bridgeConverter.verify(css)).equivalent).toBe(true);
+  });
+
+  test('should extract repeated declaration subsets into mixins', async () => {
+    const mixinConverter = new CSSToSCSSConverter({
+      enableMixinExtraction: true,
+      enableVariableExtraction: false,
+      enableDuplicateDetection: false
+    });
+    
+    const css = `
+.modal {
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  position: fixed;
+}
+
+.hero {
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  min-height: 400px;
+}
+
+.avatar {
+  width: 40px;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+}
+
+.title {
+  display: flex;
+  align-items: center;
+}
+    `.trim();
+    
+    const report = await mixinConverter.convertWithReport(css);
+    
+    expect(report.scss).toContain('@mixin flex-center {');
+    expect(report.scss).toContain('.modal {\n  @include flex-center;\n  position: fixed;\n}');
+    expect(report.scss).toContain('.avatar {\n  width: 40px;\n  @include flex-center;\n}');
+    // Too small a subset to be worth a mixin
+    expect(report.scss).toContain('.title {\n  display: flex;\n  align-items: center;\n}');
+    expect(report.mixins).toEqual([
+      { name: 'flex-center', properties: ['display', 'align-items', 'justify-content'], parameters: [], occurrences: 3 }
+    ]);
+    expect((await mixinConverter.verify(css)).equivalent).toBe(true);
+  });
+
+  test('should share duplicate declarations through placeholders in extend mode', async () => {
+    const extendConverter = new CSSToSCSSConverter({
+      duplicateMergeMode: 'extend',
+      enableVariableExtraction: false
+    });
+    
+    const css = `
+.card {
+  padding: 16px;
+  border-radius: 4px;
+}
+
+.card__header {
+  font-weight: bold;
+}
+
+.panel {
+  padding: 16px;
+  border-radius: 4px;
+}
+
+.panel__body {
+  margin: 0;
+}
+    `.trim();
+    
+    const result = await extendConverter.convert(css);
+    
+    expect(result).toContain('%card {\n  padding: 16px;\n  border-radius: 4px;\n}');
+    expect(result).toContain('.card {\n  @extend %card;\n\n  &__header {');
+    expect(result).toContain('.panel {\n  @extend %card;\n\n  &__body {');
+    expect(result).not.toContain('.card, .panel');
+    
+    const verification = await extendConverter.verify(css);
+    expect(verification.equivalent).toBe(true);
+  });
+
+  test('should not hoist placeholders past earlier overrides or ahead of earlier layers', async () => {
+    const extendConverter = new CSSToSCSSConverter({
+      duplicateMergeMode: 'extend',
+      enableVariableExtraction: false,
+      enableMediaQueryGrouping: false
+    });
+    
+    const mediaCSS = `
+@media (min-width: 1px) {
+  .x { margin: 2px; }
+}
+.x { margin: 0; }
+.y { margin: 0; }
+    `.trim();
+    
+    expect(await extendConverter.convert(mediaCSS)).not.toContain('@extend');
+    expect((await extendConverter.verify(mediaCSS)).equivalent).toBe(true);
+    
+    const layerCSS = `
+@layer a {
+  .b { color: blue; }
+}
+@layer b {
+  .b { color: red; }
+  .c { color: red; }
+}
+@layer {
+  .p { color: blue; }
+}
+@layer {
+  .q { color: red; }
+  .r { color: red; }
+}
+    `.trim();
+    
+    const result = await extendConverter.convert(layerCSS);
+    
+    // The first layer block decides the layer order, so `a` must still come before `b`
+    expect(result.indexOf('@layer a')).toBeLessThan(result.indexOf('@layer b'));
+    expect(result).not.toContain('@extend');
+    expect(result).not.toMatch(/@layer \{\s*\}/);
+    expect((await extendConverter.verify(layerCSS)).equivalent).toBe(true);
+  });
+
+  test('should turn sibling rules that differ in a few values into a parameterized mixin', async () => {
+    const variantConverter = new CSSToSCSSConverter({
+      enableVariantMixins: true,
+      enableVariableExtraction: false
+    });
+    
+    const css = `
+.btn--primary {
+  background-color: #007bff;
+  border-color: #007bff;
+  color: #fff;
+  border-width: 1px;
+}
+
+.btn--danger {
+  background-color: #dc3545;
+  border-color: #dc3545;
+  color: #fff;
+  border-width: 1px;
+}
+    `.trim();
+    
+    const result = await variantConverter.convertWithReport(css);
+    
+    expect(result.scss).toContain('@mixin btn-variant($bg, $border) {\n  background-color: $bg;\n  border-color: $border;\n  color: #fff;\n  border-width: 1px;\n}');
+    expect(result.scss).toContain('@include btn-variant(#007bff, #007bff);');
+    expect(result.scss).toContain('@include btn-variant(#dc3545, #dc3545);');
+    expect(result.mixins).toEqual([expect.objectContaining({ name: 'btn-variant', parameters: ['$bg', '$border'], occurrences: 2 })]);
+    
+    const verification = await variantConverter.verify(css);
+    expect(verification.equivalent).toBe(true);
+  });
+
+  test('should rewrite width media queries through a breakpoint map and mixin', async () => {
+    const breakpointConverter = new CSSToSCSSConverter({
+      breakpoints: 'respond-to',
+      enableVariableExtraction: false
+    });
+    
+    const css = `
+.card {
+  padding: 8px;
+}
+
+@media screen and (min-width: 768px) {
+  .card {
+    padding: 16px;
+  }
+}
+
+@media screen and (min-width: 992px) {
+  .card {
+    padding: 24px;
+  }
+}
+
+@media print {
+  .card {
+    padding: 0;
+  }
+}
+    `.trim();
+    
+    const result = await breakpointConverter.convertWithReport(css);
+    
+    expect(result.scss).toContain('$breakpoints: (\n  md: 768px,\n  lg: 992px\n);');
+    expect(result.scss).toContain('@mixin respond-to($name) {\n  @media screen and (min-width: map-get($breakpoints, $name)) {\n    @content;\n  }\n}');
+    expect(result.scss).toContain('@include respond-to(md) {\n  .card {\n    padding: 16px;');
+    expect(result.scss).toContain('@include respond-to(lg) {');
+    expect(result.scss).toContain('@media print {');
+    expect(result.warnings).toContainEqual(expect.objectContaining({ type: 'unmapped-media-query' }));
+    
+    const verification = await breakpointConverter.verify(css);
+    expect(verification.equivalent).toBe(true);
+  });
+
+  test('should name breakpoints after known framework widths or their value', async () => {
+    const breakpointConverter = new CSSToSCSSConverter({
+      breakpoints: 'respond-to',
+      enableVariableExtraction: false
+    });
+    
+    const css = `
+@media (max-width: 767.98px) {
+  .nav { display: none; }
+}
+
+@media (min-width: 768px) {
+  .nav { display: flex; }
+}
+
+@media (min-width: 1000px) {
+  .nav { gap: 8px; }
+}
+    `.trim();
+    
+    const result = await breakpointConverter.convert(css);
+    
+    expect(result).toContain('$breakpoints: (\n  bp-767-98px: 767.98px,\n  md: 768px,\n  bp-1000px: 1000px\n);');
+    expect(result).toContain('@include respond-below(bp-767-98px) {');
+    expect(result).toContain('@include respond-to(md) {');
+    expect((await breakpointConverter.verify(css)).equivalent).toBe(true);
+  });
+
+  test('should keep extends inside breakpoint mixins nested in their rule', async () => {
+    const nestedConverter = new CSSToSCSSConverter({
+      enableMediaQueryNesting: true,
+      breakpoints: 'respond-to',
+      duplicateMergeMode: 'extend',
+      enableVariableExtraction: false
+    });
+    
+    const css = `
+.z { color: red; }
+.y { color: blue; }
+
+@media (min-width: 768px) {
+  .z { margin: 0; padding: 4px; }
+  .y { margin: 0; padding: 4px; }
+}
+    `.trim();
+    
+    const result = await nestedConverter.convert(css);
+    
+    expect(result).toContain('.z {\n  color: red;\n\n  @include respond-to(md) {\n    @extend %z;\n  }\n}');
+    expect(result).toContain('.y {\n  color: blue;\n\n  @include respond-to(md) {\n    @extend %z;\n  }\n}');
+    expect((await nestedConverter.verify(css)).equivalent).toBe(true);
+  });
+
+  test('should collapse vendor-prefixed groups into a mixin or drop outdated prefixes', async () => {
+    const css = `
+.icon {
+  -webkit-transform: rotate(45deg);
+  -ms-transform: rotate(45deg);
+  transform: rotate(45deg);
+  -webkit-border-radius: 4px;
+  border-radius: 4px;
+  -webkit-appearance: none;
+}
+    `.trim();
+    
+    const mixinConverter = new CSSToSCSSConverter({ vendorPrefixes: 'mixin', enableVariableExtraction: false });
+    const collapsed = await mixinConverter.convert(css);
+    
+    expect(collapsed).toContain('@mixin prefix($property, $value, $prefixes: webkit moz ms) {');
+    expect(collapsed).toContain('@include prefix(transform, rotate(45deg), webkit ms);');
+    expect(collapsed).toContain('@include prefix(border-radius, 4px, webkit);');
+    expect(collapsed).toContain('-webkit-appearance: none;');
+    expect((await mixinConverter.verify(css)).equivalent).toBe(true);
+    
+    const removeConverter = new CSSToSCSSConverter({
+      vendorPrefixes: 'remove',
+      browsers: 'last 2 chrome versions',
+      enableVariableExtraction: false
+    });
+    const removed = await removeConverter.convert(css);
+    
+    expect(removed).toContain('.icon {\n  transform: rotate(45deg);\n  border-radius: 4px;\n  -webkit-appearance: none;\n}');
+    expect((await removeConverter.verify(css)).equivalent).toBe(true);
+    
+    // Keyframes hold their stops as children, so removing prefixes must not take them for empty rules
+    const animated = '.a { animation: spin 1s; }\n.b { animation: spin 2s; }\n@keyframes spin { from { opacity: 0; } to { opacity: 1; } }';
+    expect(await removeConverter.convert(animated)).toContain('@keyframes spin {');
+    expect((await removeConverter.verify(animated)).equivalent).toBe(true);
+  });
+
+  test('should split the output into partials per BEM block with an index', async () => {
+    const css = `
+body {
+  margin: 0;
+}
+
+.card {
+  padding: 16px;
+  color: #333;
+}
+
+.card__title {
+  color: #333;
+}
+
+.nav {
+  display: flex;
+}
+    `.trim();
+    
+    const { files, warnings } = await converter.convertToModules(css);
+    const file = (path: string) => files.find(candidate => candidate.path === path)!.content;
+    
+    expect(files.map(candidate => candidate.path)).toEqual(['_variables.scss', '_base.scss', '_card.scss', '_nav.scss', 'index.scss']);
+    expect(file('_variables.scss')).toContain('$color-333: #333;');
+    expect(file('_card.scss')).toContain("@use 'variables' as *;\n\n.card {\n  padding: 16px;\n  color: $color-333;\n\n  &__title {");
+    expect(file('_base.scss')).toContain('body {\n  margin: 0;\n}');
+    expect(file('index.scss')).toBe("@forward 'variables';\n\n@use 'base';\n@use 'card';\n@use 'nav';\n");
+    expect(warnings).toEqual([]);
+  });
+
+  test('should keep block modifiers in their block partial and only warn about reordering within a layer', async () => {
+    const css = `
+.card {
+  padding: 16px;
+}
+
+.nav {
+  display: flex;
+}
+
+@media (min-width: 600px) {
+  .card--big {
+    padding: 24px;
+  }
+}
+    `.trim();
+    
+    const { files, warnings } = await new CSSToSCSSConverter({ enableVariableExtraction: false }).convertToModules(css);
+    
+    expect(files.map(candidate => candidate.path)).toEqual(['_card.scss', '_nav.scss', 'index.scss']);
+    expect(files[0].content).toContain('.card--big {');
+    expect(warnings).toEqual([]);
+    
+    // .nav now comes after .card--big; a media query may apply to the same element, another layer never competes
+    const split = (wrapper: string) => new CSSToSCSSConverter({ enableVariableExtraction: false }).convertToModules(
+      `.card { color: red; }\n.nav { color: blue; }\n${wrapper} { .card--big { color: green; } }`
+    );
+    expect((await split('@media (min-width: 600px)')).warnings).toEqual([expect.objectContaining({ type: 'cascade-reordered', selector: '.nav' })]);
+    expect((await split('@layer nav')).warnings).toEqual([]);
+  });
+
+  test('should keep every keyframe and nest keyframes used by a single block', async () => {
+    const css = `
+.spinner {
+  animation: spin 1s linear infinite;
+}
+
+@keyframes spin {
+  from { transform: rotate(0deg); }
+  to { transform: rotate(360deg); }
+}
+
+@keyframes pulse {
+  /* visible */
+  0%, 50% { opacity: 1; background: url(data:image/png;base64,AAA=); }
+  37.5% { opacity: .5 !important; }
+  to { opacity: 0; }
+}
+
+.a {
+  animation-name: pulse;
+}
+
+.b {
+  animation: pulse 2s;
+}
+    `.trim();
+    
+    const keyframesConverter = new CSSToSCSSConverter({ enableVariableExtraction: false });
+    const result = await keyframesConverter.convert(css);
+    
+    expect(result).toContain('.spinner {\n  animation: spin 1s linear infinite;\n\n  @keyframes spin {\n    from {\n      transform: rotate(0deg);\n    }\n    to {\n      transform: rotate(360deg);\n    }\n  }\n}');
+    expect(result).toContain('@keyframes pulse {\n  0%, 50% {\n    /* visible */\n    opacity: 1;\n    background: url(data:image/png;base64,AAA=);\n  }\n  37.5% {\n    opacity: .5 !important;\n  }\n  to {\n    opacity: 0;\n  }\n}');
+    expect((await keyframesConverter.verify(css)).equivalent).toBe(true);
+  });
+
+  test('should keep every descriptor at-rule and extract @font-face families', async () => {
+    const css = `
+@font-face {
+  font-family: "Inter";
+  font-weight: 400;
+}
+
+@font-face {
+  font-family: "Inter";
+  font-weight: 700;
+}
+
+@page :first {
+  margin: 1cm;
+  @top-center { content: "Report"; }
+}
+
+@property --angle {
+  syntax: "<angle>";
+  inherits: false;
+  initial-value: 0deg;
+}
+
+body {
+  font-family: "Inter", sans-serif;
+}
+    `.trim();
+    
+    const result = await converter.convert(css);
+    
+    expect(result).toContain('$font-inter: "Inter";');
+    expect(result).toContain('@font-face {\n  font-family: $font-inter;\n  font-weight: 400;\n}');
+    expect(result).toContain('@font-face {\n  font-family: $font-inter;\n  font-weight: 700;\n}');
+    expect(result).toContain('@page :first {\n  margin: 1cm;\n  @top-center {\n    content: "Report";\n  }\n}');
+    expect(result).toContain('@property --angle {\n  syntax: "<angle>";\n  inherits: false;\n  initial-value: 0deg;\n}');
+    expect(result).toContain('font-family: $font-inter,sans-serif;');
+    expect((await converter.verify(css)).equivalent).toBe(true);
+  });
+
+  test('should keep statement at-rules in front and turn local .css imports into @use', async () => {
+    const css = `
+@charset "UTF-8";
+@import url("base.css");
+@import "print.css" print;
+@import "theme";
+@namespace svg url(http://www.w3.org/2000/svg);
+
+.card {
+  padding: 4px;
+}
+    `.trim();
+    
+    const kept = await converter.convert(css);
+    expect(kept).toMatch(/^@charset "UTF-8";\n\n@import url\(base\.css\);\n@import "print\.css" print;\n@import url\("theme"\);\n@namespace svg url\(http:\/\/www\.w3\.org\/2000\/svg\);\n\n\.card \{/);
+    expect((await converter.verify(css)).equivalent).toBe(true);
+    
+    // @namespace has to precede the CSS a @use emits, so every import stays an @import
+    const useConverter = new CSSToSCSSConverter({ cssImports: 'use' });
+    const namespaced = await useConverter.convertWithReport(css);
+    expect(namespaced.scss).not.toContain('@use');
+    expect(namespaced.warnings).toContainEqual(expect.objectContaining({ type: 'import-kept' }));
+    
+    const withoutNamespace = css.replace(/@namespace.*\n/, '');
+    const used = await useConverter.convert(withoutNamespace);
+    expect(used).toMatch(/^@charset "UTF-8";\n@use 'base';\n\n@import "print\.css" print;\n@import url\("theme"\);/);
+    expect((await useConverter.verify(withoutNamespace)).equivalent).toBe(true);
+    
+    // A converted import after a plain one would jump ahead of it
+    const late = await useConverter.convertWithReport('@import "theme";\n@layer base;\n@import "base.css";\n\n.card { padding: 4px; }');
+    expect(late.scss).toMatch(/^@import url\("theme"\);\n@layer base;\n@import "base\.css";\n/);
+    expect(late.warnings).toContainEqual(expect.objectContaining({ type: 'import-kept' }));
+  });
+
+  test('should keep layer order statements and never merge rules across layers', async () => {
+    const css = `
+@layer reset, components;
+
+@layer components {
+  .card { padding: 4px; }
+  .link { padding: 4px; }
+}
+
+@layer reset {
+  .card { padding: 4px; }
+}
+
+@layer {
+  .x { color: blue; }
+}
+
+@layer {
+  .y { color: blue; }
+}
+    `.trim();
+    
+    const layerConverter = new CSSToSCSSConverter({ enableVariableExtraction: false, enableBEM: false });
+    const result = await layerConverter.convert(css);
+    
+    expect(result).toMatch(/^@layer reset, components;\n/);
+    expect(result).toContain('@layer components {\n  .card, .link {\n    padding: 4px;\n  }\n}');
+    expect(result).toContain('@layer reset {\n  .card {\n    padding: 4px;\n  }\n}');
+    expect(result).toContain('@layer {\n  .x {\n    color: blue;\n  }\n}\n\n@layer {\n  .y {\n    color: blue;\n  }\n}');
+    expect((await layerConverter.verify(css)).equivalent).toBe(true);
+  });
+
+  test('should resolve native CSS nesting into fully qualified selectors', async () => {
+    const css = `
+.card {
+  padding: 4px;
+  & .title { color: red; }
+  .icon { width: 10px; }
+  > .body { margin: 0; }
+  &:hover { color: blue; }
+  .theme-dark & { color: white; }
+  @media (min-width: 600px) {
+    padding: 8px;
+  }
+}
+    `.trim();
+    
+    const nestingConverter = new CSSToSCSSConverter({ enableVariableExtraction: false, enableBEM: false });
+    const result = await nestingConverter.convert(css);
+    
+    expect(result).toContain('& .title {\n    color: red;\n  }');
+    expect(result).toContain('& .icon {\n    width: 10px;\n  }');
+    expect(result).toContain('&:hover {\n    color: blue;\n  }');
+    expect(result).toContain('&>.body {\n    margin: 0;\n  }');
+    expect(result).toContain('.theme-dark {\n  & .card {\n    color: white;\n  }\n}');
+    expect(result).toContain('@media (min-width:600px) {\n  .card {\n    padding: 8px;\n  }\n}');
+    expect((await nestingConverter.verify(css)).equivalent).toBe(true);
+  });
+
+  test('should resolve & as :is() where writing it out per parent would change matching or specificity', async () => {
+    const css = `
+.a, #b {
+  & .c & { color: blue; }
+  .d { color: green; }
+}
+.e, .f {
+  &:hover { color: red; }
+}
+.g .h {
+  .i & { color: white; }
+}
+    `.trim();
+    
+    const nestingConverter = new CSSToSCSSConverter({ enableVariableExtraction: false, enableBEM: false });
+    const result = await nestingConverter.convert(css);
+    
+    expect(result).toContain(':is(.a,#b) .c :is(.a,#b) {');
+    expect(result).toContain(':is(.a,#b) .d {');
+    expect(result).toContain('.e:hover, .f:hover {');
+    expect(result).toContain('.i {\n  & :is(.g .h) {');
+    expect((await nestingConverter.verify(css)).equivalent).toBe(true);
+  });
+
+  test('should only replace the nesting selector and not an & inside attribute values', async () => {
+    const css = `
+.a, #b {
+  &[data-x="a&b"] { color: red; }
+}
+.c {
+  &[title='&'] .d { color: blue; }
+}
+    `.trim();
+    
+    const nestingConverter = new CSSToSCSSConverter({ enableVariableExtraction: false, enableBEM: false });
+    const result = await nestingConverter.convert(css);
+    
+    expect(result).toContain(':is(.a,#b)[data-x="a&b"] {');
+    expect(result).toContain('.c[title="&"] {\n  & .d {');
+    expect((await nestingConverter.verify(css)).equivalent).toBe(true);
+  });
+});
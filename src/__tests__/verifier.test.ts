@@ -0,0 +1,226 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CSSToSCSSConverter, EquivalenceVerifier } from '../index';
+
+describe('EquivalenceVerifier', () => {
+  let verifier: EquivalenceVerifier;
+
+  beforeEach(() => {
+    verifier = new EquivalenceVerifier();
+  });
+
+  test('should accept nested SCSS with variables that flattens to the input', () => {
+    const css = `
+.card {
+  color: #333;
+}
+
+.card__title {
+  color: #333;
+  font-size: 20px;
+}
+
+@media (min-width: 768px) {
+  .card__title {
+    font-size: 24px;
+  }
+}
+    `.trim();
+    
+    const scss = `
+$color-text: #333;
+
+.card {
+  color: $color-text;
+
+  &__title {
+    color: $color-text;
+    font-size: 20px;
+    
+    @media (min-width: 768px) {
+      font-size: 24px;
+    }
+  }
+}
+    `.trim();
+    
+    const result = verifier.verify(css, scss);
+    
+    expect(result.differences).toEqual([]);
+    expect(result.equivalent).toBe(true);
+  });
+
+  test('should report missing selectors and changed values', () => {
+    const css = `
+.nav { color: red; padding: 10px; }
+.footer { margin: 0; }
+    `.trim();
+    
+    const scss = `
+.nav {
+  color: blue;
+  padding: 10px;
+}
+    `.trim();
+    
+    const result = verifier.verify(css, scss);
+    
+    expect(result.equivalent).toBe(false);
+    expect(result.differences).toContainEqual(expect.objectContaining({
+      type: 'value-mismatch',
+      selector: '.nav',
+      property: 'color',
+      expected: 'red',
+      actual: 'blue'
+    }));
+    expect(result.differences).toContainEqual(expect.objectContaining({
+      type: 'missing-rule',
+      selector: '.footer'
+    }));
+  });
+
+  test('should report cascade order changes between rules of equal specificity', () => {
+    const css = `
+.btn { color: red; }
+.link { color: blue; }
+    `.trim();
+    
+    const scss = `
+.link {
+  color: blue;
+}
+
+.btn {
+  color: red;
+}
+    `.trim();
+    
+    const result = verifier.verify(css, scss);
+    
+    expect(result.equivalent).toBe(false);
+    expect(result.differences).toContainEqual(expect.objectContaining({
+      type: 'cascade-order',
+      property: 'color'
+    }));
+  });
+
+  test('should verify the output of the converter', async () => {
+    const converter = new CSSToSCSSConverter();
+    
+    const css = `
+.header {
+  background: #007bff;
+  padding: 20px;
+}
+
+.header__logo {
+  color: #007bff;
+}
+
+.header__logo:hover {
+  color: #0056b3;
+}
+    `.trim();
+    
+    const result = await converter.verify(css);
+    
+    expect(result.equivalent).toBe(true);
+  });
+
+  test('should report colors folded into a near-identical shade', async () => {
+    const css = `
+.a { color: #333333; }
+.b { color: #343434; }
+.c { color: rgba(0, 0, 0, .5); }
+    `.trim();
+    
+    const scss = `
+.a {
+  color: #333;
+}
+
+.b {
+  color: #333;
+}
+
+.c {
+  color: rgba(#000, 0.5);
+}
+    `.trim();
+    
+    const result = verifier.verify(css, scss);
+    
+    expect(result.differences).toEqual([expect.objectContaining({ type: 'value-mismatch', selector: '.b', property: 'color' })]);
+    expect((await new CSSToSCSSConverter({ colorMergeThreshold: 2.3 }).verify(css)).equivalent).toBe(false);
+  });
+
+  test('should load used modules from the load paths and ignore leading zeros', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'verifier-'));
+    writeFileSync(join(directory, '_variables.scss'), '$speed: 0.3s;\n$gap: 0.5rem;\n');
+    
+    const css = `
+.c { transition: all .3s; margin: .5rem; opacity: .50; }
+    `.trim();
+    
+    const scss = `
+@use 'variables' as *;
+@use 'variables' as v;
+
+.c {
+  transition: all $speed;
+  margin: v.$gap;
+  opacity: 0.5;
+}
+    `.trim();
+    
+    try {
+      expect(new EquivalenceVerifier({ loadPaths: [directory] }).verify(css, scss).equivalent).toBe(true);
+      expect(verifier.verify(css, scss).equivalent).toBe(false);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('should resolve native nesting in the input as :is() of the parents', () => {
+    const css = `
+.a, #b {
+  & .c { color: blue; }
+}
+    `.trim();
+    
+    // Written out per parent, .a .c would lose the id specificity :is(.a, #b) gives it
+    expect(verifier.verify(css, '.a .c, #b .c {\n  color: blue;\n}').equivalent).toBe(false);
+    expect(verifier.verify(css, ':is(.a, #b) .c {\n  color: blue;\n}').equivalent).toBe(true);
+    
+    // Sass nesting in the SCSS is still written out per parent
+    expect(verifier.verify('.a .c, .b .c { color: blue; }', '.a, .b {\n  .c {\n    color: blue;\n  }\n}').equivalent).toBe(true);
+  });
+
+  test('should resolve variables whose names start with a hyphen', () => {
+    const css = '.a { -webkit-box-flex: 0; box-flex: 0; }';
+    const scss = `
+$-webkit-box-flex-0: 0;
+
+.a {
+  -webkit-box-flex: $-webkit-box-flex-0;
+  box-flex: $-webkit-box-flex-0;
+}
+    `.trim();
+    
+    const result = verifier.verify(css, scss);
+    
+    expect(result.differences).toEqual([]);
+    expect(result.equivalent).toBe(true);
+  });
+
+  test('should not report cascade order for rules merged over normalized colors', async () => {
+    const css = '.a { color: #fff; }\n.b { color: white; }';
+    const scss = await new CSSToSCSSConverter().convert(css);
+    const result = verifier.verify(css, scss);
+    
+    expect(scss).toContain('.a, .b {\n  color: $color-fff;');
+    expect(result.differences).toEqual([]);
+    expect(result.equivalent).toBe(true);
+  });
+});
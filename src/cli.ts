@@ -2,45 +2,157 @@
 
 import { Command } from 'commander';
 import { readFileSync, writeFileSync, existsSync, readdirSync, mkdirSync } from 'fs';
-import { join, basename } from 'path';
-import { CSSToSCSSConverter, ConversionOptions } from './index';
+import { join, basename, dirname, extname, relative, sep } from 'path';
+import { CSSToSCSSConverter, ConversionOptions, ConversionReport, EquivalenceVerifier, VerificationResult, Logger, createConsoleLogger, loadDesignTokens } from './index';
 
 const program = new Command();
 
+function addConversionOptions(command: Command): Command {
+  return command
+    .option('-i, --indent-size <number>', 'Indentation size (default: 2)', '2')
+    .option('-t, --indent-type <type>', 'Indentation type: spaces or tabs (default: spaces)', 'spaces')
+    .option('--no-comments', 'Remove comments from output')
+    .option('-s, --sort', 'Sort CSS properties alphabetically')
+    .option('--bem', 'Enable BEM methodology support (default: true)')
+    .option('--no-bem', 'Disable BEM methodology support')
+    .option('--smart-nesting', 'Enable smart nesting (default: true)')
+    .option('--no-smart-nesting', 'Disable smart nesting')
+    .option('--max-depth <number>', 'Maximum nesting depth (default: 5)', '5')
+    .option('--dedupe', 'Enable duplicate detection and merging (default: true)')
+    .option('--no-dedupe', 'Disable duplicate detection')
+    .option('--merge-mode <mode>', 'Duplicate merge mode: aggressive, cascade-safe or extend (default: aggressive)', 'aggressive')
+    .option('--advanced-bem', 'Enable advanced BEM with multi-level elements (default: true)')
+    .option('--no-advanced-bem', 'Disable advanced BEM')
+    .option('--media-grouping', 'Enable media query grouping (default: true)')
+    .option('--no-media-grouping', 'Disable media query grouping')
+    .option('--nest-media', 'Nest media queries inside their selectors (default: false)')
+    .option('--breakpoints <style>', 'Rewrite width media queries through a breakpoint map: none, respond-to or bootstrap (media-breakpoint-up/down) (default: none)', 'none')
+    .option('--variables', 'Enable variable extraction (default: true)')
+    .option('--no-variables', 'Disable variable extraction')
+    .option('--var-prefix <prefix>', 'Variable prefix (default: $)', '$')
+    .option('--min-occurrences <number>', 'Minimum occurrences for variable extraction (default: 2)', '2')
+    .option('--extract-colors', 'Extract color variables (default: true)')
+    .option('--no-extract-colors', 'Disable color variable extraction')
+    .option('--extract-sizes', 'Extract size variables (default: true)')
+    .option('--no-extract-sizes', 'Disable size variable extraction')
+    .option('--extract-fonts', 'Extract font variables (default: true)')
+    .option('--no-extract-fonts', 'Disable font variable extraction')
+    .option('--color-threshold <number>', 'Merge near-identical colors within this CIE76 distance into one variable (default: 0, off)', '0')
+    .option('--color-functions <style>', 'Write shades of extracted colors as Sass functions: none, legacy (darken/lighten/rgba) or module (color.adjust) (default: none)', 'none')
+    .option('--color-tolerance <number>', 'Maximum CIE76 distance between a derived color and the original (default: 1)', '1')
+    .option('--custom-properties <mode>', 'Custom properties on :root: preserve, convert (to Sass variables) or bridge (Sass variable plus custom property) (default: preserve)', 'preserve')
+    .option('--mixins', 'Extract repeated declaration subsets into @mixin definitions (default: false)')
+    .option('--mixin-min-declarations <number>', 'Smallest declaration subset worth a mixin (default: 3)', '3')
+    .option('--mixin-min-occurrences <number>', 'Rules that must share a subset before it becomes a mixin (default: 3)', '3')
+    .option('--variant-mixins', 'Turn sibling rules that differ in a few values into a parameterized @mixin (default: false)')
+    .option('--vendor-prefixes <mode>', 'Vendor-prefixed declarations: keep, mixin (@include prefix()) or remove (those the target browsers no longer need) (default: keep)', 'keep')
+    .option('--browsers <query>', 'Browserslist query used by --vendor-prefixes remove (default: the project\'s browserslist config)')
+    .option('--css-imports <mode>', 'Imports of local .css files: keep (@import) or use (@use of the converted stylesheet) (default: keep)', 'keep')
+    .option('--tokens <path>', 'Reuse variable names from a design token file (.scss or .json)')
+    .option('--verbose', 'Show debug output such as stage timings')
+    .option('-q, --quiet', 'Only print errors');
+}
+
+function createCliLogger(options: any): Logger {
+  // stdout is reserved for the JSON report when it is printed there
+  if (options.report === true) {
+    return createConsoleLogger(options.quiet ? 'silent' : 'warn');
+  }
+  if (options.quiet) return createConsoleLogger('silent');
+  return createConsoleLogger(options.verbose ? 'debug' : 'info');
+}
+
+function buildConversionOptions(options: any): ConversionOptions {
+  return {
+    indentSize: parseInt(options.indentSize),
+    indentType: options.indentType as 'spaces' | 'tabs',
+    preserveComments: options.comments !== false,
+    sortProperties: options.sort || false,
+    enableBEM: options.bem !== false && options.noBem !== true,
+    enableSmartNesting: options.smartNesting !== false && options.noSmartNesting !== true,
+    maxNestingDepth: parseInt(options.maxDepth),
+    enableDuplicateDetection: options.dedupe !== false && options.noDedupe !== true,
+    duplicateMergeMode: options.mergeMode as 'aggressive' | 'cascade-safe' | 'extend',
+    enableAdvancedBEM: options.advancedBem !== false && options.noAdvancedBem !== true,
+    enableMediaQueryGrouping: options.mediaGrouping !== false && options.noMediaGrouping !== true,
+    enableMediaQueryNesting: options.nestMedia || false,
+    breakpoints: options.breakpoints as 'none' | 'respond-to' | 'bootstrap',
+    vendorPrefixes: options.vendorPrefixes as 'keep' | 'mixin' | 'remove',
+    browsers: options.browsers,
+    cssImports: options.cssImports as 'keep' | 'use',
+    enableVariableExtraction: options.variables !== false && options.noVariables !== true,
+    variablePrefix: options.varPrefix,
+    minOccurrences: parseInt(options.minOccurrences),
+    extractColors: options.extractColors !== false && options.noExtractColors !== true,
+    extractSizes: options.extractSizes !== false && options.noExtractSizes !== true,
+    extractFonts: options.extractFonts !== false && options.noExtractFonts !== true,
+    extractOthers: true,
+    logger: createCliLogger(options),
+    designTokens: options.tokens ? loadDesignTokens(options.tokens, options.varPrefix) : undefined,
+    colorMergeThreshold: parseFloat(options.colorThreshold),
+    colorFunctions: options.colorFunctions as 'none' | 'legacy' | 'module',
+    colorFunctionTolerance: parseFloat(options.colorTolerance),
+    customProperties: options.customProperties as 'preserve' | 'convert' | 'bridge',
+    enableMixinExtraction: options.mixins || false,
+    mixinMinDeclarations: parseInt(options.mixinMinDeclarations),
+    mixinMinOccurrences: parseInt(options.mixinMinOccurrences),
+    enableVariantMixins: options.variantMixins || false,
+  };
+}
+
+function addSourceMapOptions(command: Command): Command {
+  return command
+    .option('--source-map', 'Write a source map next to each SCSS file (<output>.map)')
+    .option('--inline-source-map', 'Embed the source map in the SCSS output');
+}
+
+function withOutputOptions(conversionOptions: ConversionOptions, options: any, inputPath: string, outputPath: string): ConversionOptions {
+  return {
+    ...conversionOptions,
+    sourceMap: options.inlineSourceMap ? 'inline' : options.sourceMap ? 'file' : 'none',
+    // Sources are relative to the SCSS file, like the sourceMappingURL comment
+    sourceFileName: toSassPath(relative(dirname(outputPath), inputPath)),
+    outputFileName: basename(outputPath),
+    // A .scss token file can be loaded with @use; JSON tokens are declared inline
+    designTokensModule: options.tokens && extname(options.tokens) === '.scss'
+      ? toSassPath(relative(dirname(outputPath), options.tokens)).replace(/(^|\/)_?([^/]+)\.scss$/, '$1$2')
+      : undefined,
+  };
+}
+
+function toSassPath(path: string): string {
+  return path.split(sep).join('/');
+}
+
+async function convertToFile(cssContent: string, outputPath: string, conversionOptions: ConversionOptions): Promise<ConversionReport> {
+  const converter = new CSSToSCSSConverter(conversionOptions);
+  const report = await converter.convertWithReport(cssContent);
+
+  writeFileSync(outputPath, report.scss);
+  if (conversionOptions.sourceMap === 'file' && report.map) {
+    writeFileSync(`${outputPath}.map`, JSON.stringify(report.map));
+  }
+
+  return report;
+}
+
 program
   .name('css2scss')
   .description('Convert CSS files to SCSS with proper nesting and beautiful formatting')
-  .version('1.0.0');
+  .version('1.0.0')
+  // Options after a subcommand name belong to the subcommand, not to the default conversion
+  .enablePositionalOptions();
 
-program
-  .argument('<input>', 'Input CSS file path')
-  .option('-o, --output <path>', 'Output SCSS file path')
-  .option('-i, --indent-size <number>', 'Indentation size (default: 2)', '2')
-  .option('-t, --indent-type <type>', 'Indentation type: spaces or tabs (default: spaces)', 'spaces')
-  .option('--no-comments', 'Remove comments from output')
-  .option('-s, --sort', 'Sort CSS properties alphabetically')
-  .option('--bem', 'Enable BEM methodology support (default: true)')
-  .option('--no-bem', 'Disable BEM methodology support')
-  .option('--smart-nesting', 'Enable smart nesting (default: true)')
-  .option('--no-smart-nesting', 'Disable smart nesting')
-  .option('--max-depth <number>', 'Maximum nesting depth (default: 5)', '5')
-  .option('--dedupe', 'Enable duplicate detection and merging (default: true)')
-  .option('--no-dedupe', 'Disable duplicate detection')
-  .option('--advanced-bem', 'Enable advanced BEM with multi-level elements (default: true)')
-  .option('--no-advanced-bem', 'Disable advanced BEM')
-  .option('--media-grouping', 'Enable media query grouping (default: true)')
-  .option('--no-media-grouping', 'Disable media query grouping')
-  .option('--variables', 'Enable variable extraction (default: true)')
-  .option('--no-variables', 'Disable variable extraction')
-  .option('--var-prefix <prefix>', 'Variable prefix (default: $)', '$')
-  .option('--min-occurrences <number>', 'Minimum occurrences for variable extraction (default: 2)', '2')
-  .option('--extract-colors', 'Extract color variables (default: true)')
-  .option('--no-extract-colors', 'Disable color variable extraction')
-  .option('--extract-sizes', 'Extract size variables (default: true)')
-  .option('--no-extract-sizes', 'Disable size variable extraction')
-  .option('--extract-fonts', 'Extract font variables (default: true)')
-  .option('--no-extract-fonts', 'Disable font variable extraction')
+addSourceMapOptions(addConversionOptions(
+  program
+    .argument('<input>', 'Input CSS file path')
+    .option('-o, --output <path>', 'Output SCSS file path, or directory with --modules')
+    .option('--modules', 'Write a directory of partials (_variables, _mixins, one per BEM block) with an index.scss instead of one file')
+    .option('--report [path]', 'Write the conversion report as JSON to a file, or to stdout when no path is given')
+))
   .action(async (input: string, options: any) => {
+    const logger = createCliLogger(options);
+    
     try {
       // Validate input file
       if (!existsSync(input)) {
@@ -51,56 +163,70 @@ program
       // Read CSS content
       const cssContent = readFileSync(input, 'utf-8');
       
-      // Setup conversion options
-      const conversionOptions: ConversionOptions = {
-        indentSize: parseInt(options.indentSize),
-        indentType: options.indentType as 'spaces' | 'tabs',
-        preserveComments: options.comments !== false,
-        sortProperties: options.sort || false,
-        enableBEM: options.bem !== false && options.noBem !== true,
-        enableSmartNesting: options.smartNesting !== false && options.noSmartNesting !== true,
-        maxNestingDepth: parseInt(options.maxDepth),
-        enableDuplicateDetection: options.dedupe !== false && options.noDedupe !== true,
-        enableAdvancedBEM: options.advancedBem !== false && options.noAdvancedBem !== true,
-        enableMediaQueryGrouping: options.mediaGrouping !== false && options.noMediaGrouping !== true,
-        enableVariableExtraction: options.variables !== false && options.noVariables !== true,
-        variablePrefix: options.varPrefix,
-        minOccurrences: parseInt(options.minOccurrences),
-        extractColors: options.extractColors !== false && options.noExtractColors !== true,
-        extractSizes: options.extractSizes !== false && options.noExtractSizes !== true,
-        extractFonts: options.extractFonts !== false && options.noExtractFonts !== true,
-        extractOthers: true,
-      };
-
-      // Convert CSS to SCSS
-      const converter = new CSSToSCSSConverter(conversionOptions);
-      const scssContent = await converter.convert(cssContent);
-
+      if (options.modules) {
+        // Reports and source maps describe a single SCSS file
+        if (options.report !== undefined || options.sourceMap || options.inlineSourceMap) {
+          console.error('Error: --report, --source-map and --inline-source-map cannot be combined with --modules.');
+          process.exit(1);
+        }
+        
+        const outputDir = options.output || input.replace(/\.css$/, '');
+        if (!existsSync(outputDir)) {
+          mkdirSync(outputDir, { recursive: true });
+        }
+        
+        const converter = new CSSToSCSSConverter(buildConversionOptions(options));
+        const result = await converter.convertToModules(cssContent);
+        result.files.forEach(file => writeFileSync(join(outputDir, file.path), file.content));
+        
+        logger.info(`✅ Successfully converted '${input}' to ${result.files.length} files in '${outputDir}'`);
+        return;
+      }
+      
       // Determine output path
       const outputPath = options.output || input.replace(/\.css$/, '.scss');
       
-      // Write SCSS content
-      writeFileSync(outputPath, scssContent);
+      // Setup conversion options
+      const conversionOptions = withOutputOptions(buildConversionOptions(options), options, input, outputPath);
       
-      console.log(`✅ Successfully converted '${input}' to '${outputPath}'`);
-      console.log(`📊 Conversion options used:`);
-      console.log(`   - Indent: ${conversionOptions.indentSize} ${conversionOptions.indentType}`);
-      console.log(`   - Comments: ${conversionOptions.preserveComments ? 'preserved' : 'removed'}`);
-      console.log(`   - Sort properties: ${conversionOptions.sortProperties ? 'yes' : 'no'}`);
-      console.log(`   - BEM support: ${conversionOptions.enableBEM ? 'enabled' : 'disabled'}`);
-      console.log(`   - Smart nesting: ${conversionOptions.enableSmartNesting ? 'enabled' : 'disabled'}`);
-      console.log(`   - Max nesting depth: ${conversionOptions.maxNestingDepth}`);
-      console.log(`   - Duplicate detection: ${conversionOptions.enableDuplicateDetection ? 'enabled' : 'disabled'}`);
-      console.log(`   - Advanced BEM: ${conversionOptions.enableAdvancedBEM ? 'enabled' : 'disabled'}`);
-      console.log(`   - Media query grouping: ${conversionOptions.enableMediaQueryGrouping ? 'enabled' : 'disabled'}`);
-      console.log(`   - Variable extraction: ${conversionOptions.enableVariableExtraction ? 'enabled' : 'disabled'}`);
+      // Convert CSS to SCSS and write the output (and source map)
+      const report = await convertToFile(cssContent, outputPath, conversionOptions);
+      
+      if (options.report === true) {
+        // Keep stdout machine-readable
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+      
+      if (typeof options.report === 'string') {
+        writeFileSync(options.report, JSON.stringify(report, null, 2));
+        logger.info(`📝 Conversion report written to '${options.report}'`);
+      }
+      
+      logger.info(`✅ Successfully converted '${input}' to '${outputPath}'`);
+      logger.info(`📊 Conversion options used:`);
+      logger.info(`   - Indent: ${conversionOptions.indentSize} ${conversionOptions.indentType}`);
+      logger.info(`   - Comments: ${conversionOptions.preserveComments ? 'preserved' : 'removed'}`);
+      logger.info(`   - Sort properties: ${conversionOptions.sortProperties ? 'yes' : 'no'}`);
+      logger.info(`   - BEM support: ${conversionOptions.enableBEM ? 'enabled' : 'disabled'}`);
+      logger.info(`   - Smart nesting: ${conversionOptions.enableSmartNesting ? 'enabled' : 'disabled'}`);
+      logger.info(`   - Max nesting depth: ${conversionOptions.maxNestingDepth}`);
+      logger.info(`   - Duplicate detection: ${conversionOptions.enableDuplicateDetection ? 'enabled' : 'disabled'}`);
+      if (conversionOptions.enableDuplicateDetection) {
+        logger.info(`   - Merge mode: ${conversionOptions.duplicateMergeMode}`);
+      }
+      logger.info(`   - Advanced BEM: ${conversionOptions.enableAdvancedBEM ? 'enabled' : 'disabled'}`);
+      logger.info(`   - Media query grouping: ${conversionOptions.enableMediaQueryGrouping ? 'enabled' : 'disabled'}`);
+      logger.info(`   - Media query nesting: ${conversionOptions.enableMediaQueryNesting ? 'enabled' : 'disabled'}`);
+      logger.info(`   - Variable extraction: ${conversionOptions.enableVariableExtraction ? 'enabled' : 'disabled'}`);
       if (conversionOptions.enableVariableExtraction) {
-        console.log(`   - Variable prefix: ${conversionOptions.variablePrefix}`);
-        console.log(`   - Min occurrences: ${conversionOptions.minOccurrences}`);
-        console.log(`   - Extract colors: ${conversionOptions.extractColors ? 'yes' : 'no'}`);
-        console.log(`   - Extract sizes: ${conversionOptions.extractSizes ? 'yes' : 'no'}`);
-        console.log(`   - Extract fonts: ${conversionOptions.extractFonts ? 'yes' : 'no'}`);
+        logger.info(`   - Variable prefix: ${conversionOptions.variablePrefix}`);
+        logger.info(`   - Min occurrences: ${conversionOptions.minOccurrences}`);
+        logger.info(`   - Extract colors: ${conversionOptions.extractColors ? 'yes' : 'no'}`);
+        logger.info(`   - Extract sizes: ${conversionOptions.extractSizes ? 'yes' : 'no'}`);
+        logger.info(`   - Extract fonts: ${conversionOptions.extractFonts ? 'yes' : 'no'}`);
       }
+      logger.info(`   - Source map: ${conversionOptions.sourceMap}`);
       
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -109,37 +235,17 @@ program
     }
   });
 
-program
-  .command('batch')
-  .description('Convert multiple CSS files in a directory')
-  .argument('<directory>', 'Directory containing CSS files')
-  .option('-o, --output <path>', 'Output directory (default: same as input)')
-  .option('-i, --indent-size <number>', 'Indentation size (default: 2)', '2')
-  .option('-t, --indent-type <type>', 'Indentation type: spaces or tabs (default: spaces)', 'spaces')
-  .option('--no-comments', 'Remove comments from output')
-  .option('-s, --sort', 'Sort CSS properties alphabetically')
-  .option('--bem', 'Enable BEM methodology support (default: true)')
-  .option('--no-bem', 'Disable BEM methodology support')
-  .option('--smart-nesting', 'Enable smart nesting (default: true)')
-  .option('--no-smart-nesting', 'Disable smart nesting')
-  .option('--max-depth <number>', 'Maximum nesting depth (default: 5)', '5')
-  .option('--dedupe', 'Enable duplicate detection and merging (default: true)')
-  .option('--no-dedupe', 'Disable duplicate detection')
-  .option('--advanced-bem', 'Enable advanced BEM with multi-level elements (default: true)')
-  .option('--no-advanced-bem', 'Disable advanced BEM')
-  .option('--media-grouping', 'Enable media query grouping (default: true)')
-  .option('--no-media-grouping', 'Disable media query grouping')
-  .option('--variables', 'Enable variable extraction (default: true)')
-  .option('--no-variables', 'Disable variable extraction')
-  .option('--var-prefix <prefix>', 'Variable prefix (default: $)', '$')
-  .option('--min-occurrences <number>', 'Minimum occurrences for variable extraction (default: 2)', '2')
-  .option('--extract-colors', 'Extract color variables (default: true)')
-  .option('--no-extract-colors', 'Disable color variable extraction')
-  .option('--extract-sizes', 'Extract size variables (default: true)')
-  .option('--no-extract-sizes', 'Disable size variable extraction')
-  .option('--extract-fonts', 'Extract font variables (default: true)')
-  .option('--no-extract-fonts', 'Disable font variable extraction')
+addSourceMapOptions(addConversionOptions(
+  program
+    .command('batch')
+    .description('Convert multiple CSS files in a directory')
+    .argument('<directory>', 'Directory containing CSS files')
+    .option('-o, --output <path>', 'Output directory (default: same as input)')
+    .option('--shared-variables', 'Move values shared across files into a _variables.scss partial')
+))
   .action(async (directory: string, options: any) => {
+    const logger = createCliLogger(options);
+    
     try {
       if (!existsSync(directory)) {
         console.error(`Error: Directory '${directory}' does not exist.`);
@@ -151,7 +257,7 @@ program
         .map((file: string) => join(directory, file));
 
       if (files.length === 0) {
-        console.log('No CSS files found in the directory.');
+        logger.info('No CSS files found in the directory.');
         return;
       }
 
@@ -160,37 +266,31 @@ program
         mkdirSync(outputDir, { recursive: true });
       }
 
-      const conversionOptions: ConversionOptions = {
-        indentSize: parseInt(options.indentSize),
-        indentType: options.indentType as 'spaces' | 'tabs',
-        preserveComments: options.comments !== false,
-        sortProperties: options.sort || false,
-        enableBEM: options.bem !== false && options.noBem !== true,
-        enableSmartNesting: options.smartNesting !== false && options.noSmartNesting !== true,
-        maxNestingDepth: parseInt(options.maxDepth),
-        enableDuplicateDetection: options.dedupe !== false && options.noDedupe !== true,
-        enableAdvancedBEM: options.advancedBem !== false && options.noAdvancedBem !== true,
-        enableMediaQueryGrouping: options.mediaGrouping !== false && options.noMediaGrouping !== true,
-        enableVariableExtraction: options.variables !== false && options.noVariables !== true,
-        variablePrefix: options.varPrefix,
-        minOccurrences: parseInt(options.minOccurrences),
-        extractColors: options.extractColors !== false && options.noExtractColors !== true,
-        extractSizes: options.extractSizes !== false && options.noExtractSizes !== true,
-        extractFonts: options.extractFonts !== false && options.noExtractFonts !== true,
-        extractOthers: true,
-      };
-
-      const converter = new CSSToSCSSConverter(conversionOptions);
+      const conversionOptions = buildConversionOptions(options);
       let successCount = 0;
 
+      if (options.sharedVariables) {
+        // Analyze every file up front so values used in several files get one shared name
+        const converter = new CSSToSCSSConverter(conversionOptions);
+        const sharedVariables = await converter.analyzeSharedVariables(
+          files.map(file => readFileSync(file, 'utf-8'))
+        );
+        
+        if (sharedVariables.length > 0) {
+          const partialFile = join(outputDir, '_variables.scss');
+          writeFileSync(partialFile, converter.formatVariablesPartial(sharedVariables));
+          logger.info(`✅ Wrote ${sharedVariables.length} shared variables to ${basename(partialFile)}`);
+          conversionOptions.sharedVariables = sharedVariables;
+        }
+      }
+      
       for (const file of files) {
         try {
           const cssContent = readFileSync(file, 'utf-8');
-          const scssContent = await converter.convert(cssContent);
           const outputFile = join(outputDir, basename(file).replace('.css', '.scss'));
           
-          writeFileSync(outputFile, scssContent);
-          console.log(`✅ Converted: ${basename(file)} → ${basename(outputFile)}`);
+          await convertToFile(cssContent, outputFile, withOutputOptions(conversionOptions, options, file, outputFile));
+          logger.info(`✅ Converted: ${basename(file)} → ${basename(outputFile)}`);
           successCount++;
         } catch (error: unknown) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -198,8 +298,64 @@ program
         }
       }
 
-      console.log(`\n🎉 Batch conversion completed: ${successCount}/${files.length} files converted successfully.`);
+      logger.info(`\n🎉 Batch conversion completed: ${successCount}/${files.length} files converted successfully.`);
+      
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Error: ${errorMessage}`);
+      process.exit(1);
+    }
+  });
+
+addConversionOptions(
+  program
+    .command('verify')
+    .description('Verify that the generated SCSS compiles to the same CSS as the input')
+    .argument('<input>', 'Input CSS file path')
+    .option('--scss <path>', 'Verify an existing SCSS file instead of converting the input')
+)
+  .action(async (input: string, options: any) => {
+    const logger = createCliLogger(options);
+    
+    try {
+      if (!existsSync(input)) {
+        console.error(`Error: Input file '${input}' does not exist.`);
+        process.exit(1);
+      }
       
+      const cssContent = readFileSync(input, 'utf-8');
+      let result: VerificationResult;
+      
+      if (options.scss) {
+        if (!existsSync(options.scss)) {
+          console.error(`Error: SCSS file '${options.scss}' does not exist.`);
+          process.exit(1);
+        }
+        const verifier = new EquivalenceVerifier({
+          inlineCustomProperties: options.customProperties === 'convert',
+          removeOutdatedPrefixes: options.vendorPrefixes === 'remove',
+          browsers: options.browsers,
+          cssImportsAsUse: options.cssImports === 'use',
+          // Partials such as the _variables.scss of a batch run sit next to the SCSS file
+          loadPaths: [dirname(options.scss)]
+        });
+        result = verifier.verify(cssContent, readFileSync(options.scss, 'utf-8'));
+      } else {
+        const converter = new CSSToSCSSConverter(buildConversionOptions(options));
+        result = await converter.verify(cssContent);
+      }
+      
+      if (result.equivalent) {
+        logger.info(`✅ '${input}' and the generated SCSS are equivalent`);
+        return;
+      }
+      
+      console.error(`❌ Found ${result.differences.length} difference(s) between '${input}' and the generated SCSS:`);
+      result.differences.forEach(difference => {
+        console.error(`   - [${difference.type}] ${difference.message}`);
+      });
+      process.exit(1);
+    
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error(`❌ Error: ${errorMessage}`);
@@ -207,4 +363,8 @@ program
     }
   });
 
-program.parse();
\ No newline at end of file
+if (require.main === module) {
+  program.parse();
+}
+
+export { program };
\ No newline at end of file
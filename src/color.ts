@@ -0,0 +1,208 @@
+export interface RGBAColor {
+  r: number; // 0-255
+  g: number;
+  b: number;
+  a: number; // 0-1
+}
+
+// CSS Color Module Level 4 named colors
+const NAMED_COLORS: { [name: string]: string } = {
+  aliceblue: '#f0f8ff', antiquewhite: '#faebd7', aqua: '#00ffff', aquamarine: '#7fffd4',
+  azure: '#f0ffff', beige: '#f5f5dc', bisque: '#ffe4c4', black: '#000000',
+  blanchedalmond: '#ffebcd', blue: '#0000ff', blueviolet: '#8a2be2', brown: '#a52a2a',
+  burlywood: '#deb887', cadetblue: '#5f9ea0', chartreuse: '#7fff00', chocolate: '#d2691e',
+  coral: '#ff7f50', cornflowerblue: '#6495ed', cornsilk: '#fff8dc', crimson: '#dc143c',
+  cyan: '#00ffff', darkblue: '#00008b', darkcyan: '#008b8b', darkgoldenrod: '#b8860b',
+  darkgray: '#a9a9a9', darkgreen: '#006400', darkgrey: '#a9a9a9', darkkhaki: '#bdb76b',
+  darkmagenta: '#8b008b', darkolivegreen: '#556b2f', darkorange: '#ff8c00', darkorchid: '#9932cc',
+  darkred: '#8b0000', darksalmon: '#e9967a', darkseagreen: '#8fbc8f', darkslateblue: '#483d8b',
+  darkslategray: '#2f4f4f', darkslategrey: '#2f4f4f', darkturquoise: '#00ced1', darkviolet: '#9400d3',
+  deeppink: '#ff1493', deepskyblue: '#00bfff', dimgray: '#696969', dimgrey: '#696969',
+  dodgerblue: '#1e90ff', firebrick: '#b22222', floralwhite: '#fffaf0', forestgreen: '#228b22',
+  fuchsia: '#ff00ff', gainsboro: '#dcdcdc', ghostwhite: '#f8f8ff', gold: '#ffd700',
+  goldenrod: '#daa520', gray: '#808080', green: '#008000', greenyellow: '#adff2f',
+  grey: '#808080', honeydew: '#f0fff0', hotpink: '#ff69b4', indianred: '#cd5c5c',
+  indigo: '#4b0082', ivory: '#fffff0', khaki: '#f0e68c', lavender: '#e6e6fa',
+  lavenderblush: '#fff0f5', lawngreen: '#7cfc00', lemonchiffon: '#fffacd', lightblue: '#add8e6',
+  lightcoral: '#f08080', lightcyan: '#e0ffff', lightgoldenrodyellow: '#fafad2', lightgray: '#d3d3d3',
+  lightgreen: '#90ee90', lightgrey: '#d3d3d3', lightpink: '#ffb6c1', lightsalmon: '#ffa07a',
+  lightseagreen: '#20b2aa', lightskyblue: '#87cefa', lightslategray: '#778899', lightslategrey: '#778899',
+  lightsteelblue: '#b0c4de', lightyellow: '#ffffe0', lime: '#00ff00', limegreen: '#32cd32',
+  linen: '#faf0e6', magenta: '#ff00ff', maroon: '#800000', mediumaquamarine: '#66cdaa',
+  mediumblue: '#0000cd', mediumorchid: '#ba55d3', mediumpurple: '#9370db', mediumseagreen: '#3cb371',
+  mediumslateblue: '#7b68ee', mediumspringgreen: '#00fa9a', mediumturquoise: '#48d1cc', mediumvioletred: '#c71585',
+  midnightblue: '#191970', mintcream: '#f5fffa', mistyrose: '#ffe4e1', moccasin: '#ffe4b5',
+  navajowhite: '#ffdead', navy: '#000080', oldlace: '#fdf5e6', olive: '#808000',
+  olivedrab: '#6b8e23', orange: '#ffa500', orangered: '#ff4500', orchid: '#da70d6',
+  palegoldenrod: '#eee8aa', palegreen: '#98fb98', paleturquoise: '#afeeee', palevioletred: '#db7093',
+  papayawhip: '#ffefd5', peachpuff: '#ffdab9', peru: '#cd853f', pink: '#ffc0cb',
+  plum: '#dda0dd', powderblue: '#b0e0e6', purple: '#800080', rebeccapurple: '#663399',
+  red: '#ff0000', rosybrown: '#bc8f8f', royalblue: '#4169e1', saddlebrown: '#8b4513',
+  salmon: '#fa8072', sandybrown: '#f4a460', seagreen: '#2e8b57', seashell: '#fff5ee',
+  sienna: '#a0522d', silver: '#c0c0c0', skyblue: '#87ceeb', slateblue: '#6a5acd',
+  slategray: '#708090', slategrey: '#708090', snow: '#fffafa', springgreen: '#00ff7f',
+  steelblue: '#4682b4', tan: '#d2b48c', teal: '#008080', thistle: '#d8bfd8',
+  tomato: '#ff6347', turquoise: '#40e0d0', violet: '#ee82ee', wheat: '#f5deb3',
+  white: '#ffffff', whitesmoke: '#f5f5f5', yellow: '#ffff00', yellowgreen: '#9acd32',
+  transparent: '#00000000'
+};
+
+export function parseColor(value: string): RGBAColor | null {
+  const color = value.trim().toLowerCase();
+
+  if (NAMED_COLORS[color]) {
+    return parseHexColor(NAMED_COLORS[color]);
+  }
+
+  if (color.startsWith('#')) {
+    return parseHexColor(color);
+  }
+
+  const functionMatch = color.match(/^(rgba?|hsla?)\((.*)\)$/);
+  if (!functionMatch) return null;
+
+  // Both the legacy comma syntax and the space syntax with "/ alpha" are accepted
+  const parts = functionMatch[2].split(/\s*[,/]\s*|\s+/).filter(part => part.length > 0);
+  if (parts.length !== 3 && parts.length !== 4) return null;
+
+  const alpha = parts.length === 4 ? parseAlpha(parts[3]) : 1;
+  if (alpha === null) return null;
+
+  if (functionMatch[1].startsWith('rgb')) {
+    const channels = parts.slice(0, 3).map(parseRGBChannel);
+    if (channels.some(channel => channel === null)) return null;
+    const [r, g, b] = channels as number[];
+    return { r, g, b, a: alpha };
+  }
+
+  const hue = parseFloat(parts[0].replace(/deg$/, ''));
+  const saturation = parsePercentage(parts[1]);
+  const lightness = parsePercentage(parts[2]);
+  if (isNaN(hue) || saturation === null || lightness === null) return null;
+
+  return { ...hslToRGB(hue, saturation, lightness), a: alpha };
+}
+
+export function normalizeColor(value: string): string | null {
+  const color = parseColor(value);
+  return color ? formatHexColor(color) : null;
+}
+
+export function formatHexColor(color: RGBAColor): string {
+  const channels = [color.r, color.g, color.b];
+  if (color.a < 1) channels.push(color.a * 255);
+  return '#' + channels.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('');
+}
+
+function parseHexColor(hex: string): RGBAColor | null {
+  const digits = hex.slice(1);
+  if (!/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(digits)) return null;
+
+  const expanded = digits.length <= 4
+    ? digits.split('').map(digit => digit + digit).join('')
+    : digits;
+  const channels = expanded.match(/../g)!.map(pair => parseInt(pair, 16));
+
+  return {
+    r: channels[0],
+    g: channels[1],
+    b: channels[2],
+    a: channels.length === 4 ? channels[3] / 255 : 1
+  };
+}
+
+function parseRGBChannel(part: string): number | null {
+  if (part.endsWith('%')) {
+    const percentage = parsePercentage(part);
+    return percentage === null ? null : percentage * 255;
+  }
+
+  const channel = parseFloat(part);
+  return isNaN(channel) ? null : Math.min(255, Math.max(0, channel));
+}
+
+function parseAlpha(part: string): number | null {
+  if (part.endsWith('%')) return parsePercentage(part);
+
+  const alpha = parseFloat(part);
+  return isNaN(alpha) ? null : Math.min(1, Math.max(0, alpha));
+}
+
+function parsePercentage(part: string): number | null {
+  const percentage = parseFloat(part);
+  return isNaN(percentage) ? null : Math.min(100, Math.max(0, percentage)) / 100;
+}
+
+export function rgbToHSL(color: RGBAColor): { h: number; s: number; l: number } {
+  const [r, g, b] = [color.r / 255, color.g / 255, color.b / 255];
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const delta = max - min;
+
+  if (delta === 0) return { h: 0, s: 0, l };
+
+  const s = l > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  let h: number;
+  if (max === r) h = (g - b) / delta + (g < b ? 6 : 0);
+  else if (max === g) h = (b - r) / delta + 2;
+  else h = (r - g) / delta + 4;
+
+  return { h: h * 60, s, l };
+}
+
+// Same semantics as Sass's color.adjust(): lightness in percentage points, alpha as a delta, both clamped
+export function adjustColor(color: RGBAColor, adjustment: { lightness?: number; alpha?: number }): RGBAColor {
+  const { h, s, l } = rgbToHSL(color);
+  const lightness = Math.min(1, Math.max(0, l + (adjustment.lightness || 0) / 100));
+  const alpha = Math.min(1, Math.max(0, color.a + (adjustment.alpha || 0)));
+  return { ...hslToRGB(h, s, lightness), a: alpha };
+}
+
+function hslToRGB(hue: number, saturation: number, lightness: number): { r: number; g: number; b: number } {
+  const h = ((hue % 360) + 360) % 360 / 360;
+
+  if (saturation === 0) {
+    const gray = lightness * 255;
+    return { r: gray, g: gray, b: gray };
+  }
+
+  const q = lightness < 0.5 ? lightness * (1 + saturation) : lightness + saturation - lightness * saturation;
+  const p = 2 * lightness - q;
+  const toChannel = (t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+
+  return {
+    r: toChannel(h + 1 / 3) * 255,
+    g: toChannel(h) * 255,
+    b: toChannel(h - 1 / 3) * 255
+  };
+}
+
+// CIE76 distance in CIELAB: about 2.3 is a just noticeable difference
+export function colorDistance(first: RGBAColor, second: RGBAColor): number {
+  const [l1, a1, b1] = rgbToLab(first);
+  const [l2, a2, b2] = rgbToLab(second);
+  return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2);
+}
+
+function rgbToLab(color: RGBAColor): [number, number, number] {
+  // sRGB -> linear RGB -> XYZ (D65) -> Lab
+  const [r, g, b] = [color.r, color.g, color.b].map(channel => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+
+  const x = (r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047;
+  const y = r * 0.2126 + g * 0.7152 + b * 0.0722;
+  const z = (r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883;
+
+  const [fx, fy, fz] = [x, y, z].map(t => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
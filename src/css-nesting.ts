@@ -0,0 +1,125 @@
+import postcss, { AtRule, ChildNode, Container, Rule } from 'postcss';
+import { SourceMapConsumer } from 'source-map-js';
+import { calculateSpecificity, countNestingSelectors, replaceNestingSelectors } from './selectors';
+
+// Conditional group rules that may be nested in a style rule, applying to its selector
+const NESTED_GROUP_AT_RULES = ['media', 'supports', 'container', 'layer', 'scope', 'starting-style', 'document', '-moz-document'];
+
+export interface ResolvedNesting {
+  css: string; // The stylesheet with every nested rule written out in full
+  // Position in the original stylesheet of a position in the resolved one (1-based line, 0-based column)
+  originalPosition(line: number, column: number): { line: number; column: number } | null;
+}
+
+// `&` stands for :is(<parents>); without it the nested selector is relative to the parent, as in `> .child`.
+// Where writing the selector out once per parent matches the same elements with the same specificity, it is written out
+function resolveNestedSelectors(parents: string[], selectors: string[]): string[] {
+  if (parents.length === 0) {
+    return selectors.map(selector => selector.trim());
+  }
+
+  const resolved: string[] = [];
+  selectors.forEach(nested => {
+    const selector = countNestingSelectors(nested) > 0 ? nested.trim() : `& ${nested.trim()}`;
+    
+    if (canWriteOutPerParent(parents, selector)) {
+      parents.forEach(parent => resolved.push(replaceNestingSelectors(selector, parent.trim())));
+    } else {
+      resolved.push(replaceNestingSelectors(selector, `:is(${parents.map(parent => parent.trim()).join(', ')})`));
+    }
+  });
+
+  return resolved;
+}
+
+function canWriteOutPerParent(parents: string[], selector: string): boolean {
+  const ampersands = countNestingSelectors(selector);
+
+  // Every `&` may be a different parent, as in `.a .c .b` for `& .c &` under `.a, .b`
+  if (parents.length > 1 && ampersands > 1) return false;
+
+  // :is() takes the highest specificity of its arguments for all of them
+  if (new Set(parents.map(parent => calculateSpecificity(parent).join(','))).size > 1) return false;
+
+  // A parent with combinators only stays the same selector where nothing is joined to its left
+  return (ampersands === 1 && selector.startsWith('&')) || parents.every(isCompound);
+}
+
+function isCompound(selector: string): boolean {
+  let outer = selector.trim();
+  for (let previous = ''; previous !== outer;) {
+    previous = outer;
+    outer = outer.replace(/\([^()]*\)|\[[^\]]*\]/g, '');
+  }
+  return !/[\s>+~]/.test(outer);
+}
+
+// Null when the stylesheet has no nesting, or does not parse and is left to the caller's more tolerant parser
+export function resolveNesting(css: string): ResolvedNesting | null {
+  let root;
+  try {
+    root = postcss.parse(css);
+  } catch {
+    return null;
+  }
+
+  if (!flattenContainer(root)) return null;
+
+  // Copies keep the source of the nodes they were made from, so the map leads back to the nested original
+  const result = root.toResult({ map: { inline: false, annotation: false, sourcesContent: false } });
+  const consumer = new SourceMapConsumer(result.map.toJSON());
+
+  return {
+    css: result.css,
+    originalPosition: (line, column) => {
+      const position = consumer.originalPositionFor({ line, column });
+      return position.line === null ? null : { line: position.line, column: position.column };
+    }
+  };
+}
+
+function flattenContainer(container: Container): boolean {
+  let changed = false;
+
+  container.each(node => {
+    if (node.type === 'rule' && node.nodes.some(child => child.type === 'rule' || child.type === 'atrule')) {
+      node.replaceWith(unnest(node.nodes, node.selectors, node));
+      changed = true;
+    } else if (node.type === 'atrule' && node.nodes && NESTED_GROUP_AT_RULES.includes(node.name.toLowerCase())) {
+      changed = flattenContainer(node) || changed;
+    }
+  });
+
+  return changed;
+}
+
+// Declarations keep their place between nested rules, so a run of them after a nested rule becomes a rule of its own
+function unnest(nodes: ChildNode[], selectors: string[], template: Rule): ChildNode[] {
+  const output: ChildNode[] = [];
+  let current: Rule | null = null;
+
+  nodes.forEach(child => {
+    if (child.type === 'decl' || child.type === 'comment') {
+      if (!current) {
+        current = template.clone({ selector: selectors.join(', '), nodes: [] });
+        output.push(current);
+      }
+      current.append(child.clone());
+      return;
+    }
+    
+    current = null;
+    
+    if (child.type === 'rule') {
+      output.push(...unnest(child.nodes, resolveNestedSelectors(selectors, child.selectors), child));
+    } else if (child.type === 'atrule' && child.nodes && NESTED_GROUP_AT_RULES.includes(child.name.toLowerCase())) {
+      const group: AtRule = child.clone({ nodes: [] });
+      group.append(...unnest(child.nodes, selectors, template));
+      output.push(group);
+    } else {
+      output.push(child.clone());
+    }
+  });
+
+  return output;
+}
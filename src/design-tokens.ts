@@ -0,0 +1,71 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import * as postcssScss from 'postcss-scss';
+
+export interface DesignToken {
+  name: string; // Sass variable name, including the prefix
+  value: string;
+}
+
+export function loadDesignTokens(filePath: string, prefix: string = '$'): DesignToken[] {
+  const content = readFileSync(filePath, 'utf-8');
+  return extname(filePath).toLowerCase() === '.json'
+    ? parseJSONTokens(content, prefix)
+    : parseSCSSTokens(content);
+}
+
+export function parseSCSSTokens(content: string): DesignToken[] {
+  const tokens: DesignToken[] = [];
+  const values = new Map<string, string>();
+
+  // Only top-level variables are tokens; anything inside rules or mixins is local
+  postcssScss.parse(content).each(node => {
+    if (node.type !== 'decl' || !node.prop.startsWith('$')) return;
+
+    const value = node.value.replace(/\s*!(default|global)\s*/g, ' ').trim();
+    // Aliases such as `$brand-primary: $blue-500` resolve to the referenced value
+    const resolved = values.get(value) ?? value;
+
+    values.set(node.prop, resolved);
+    tokens.push({ name: node.prop, value: resolved });
+  });
+
+  return tokens;
+}
+
+export function parseJSONTokens(content: string, prefix: string = '$'): DesignToken[] {
+  const tokens: DesignToken[] = [];
+
+  const walk = (node: unknown, path: string[]) => {
+    if (typeof node === 'string' || typeof node === 'number') {
+      tokens.push({ name: `${prefix}${path.join('-')}`, value: String(node) });
+      return;
+    }
+
+    if (!node || typeof node !== 'object') return;
+
+    // Style Dictionary uses `value`, the W3C design tokens format uses `$value`
+    const token = node as { [key: string]: unknown };
+    const tokenValue = token.$value ?? token.value;
+    if (typeof tokenValue === 'string' || typeof tokenValue === 'number') {
+      walk(tokenValue, path);
+      return;
+    }
+
+    Object.keys(token)
+      .filter(key => !key.startsWith('$'))
+      .forEach(key => walk(token[key], [...path, key]));
+  };
+
+  walk(JSON.parse(content), []);
+
+  // Resolve references such as "{color.blue.500}"
+  const byPath = new Map(tokens.map(token => [token.name, token.value]));
+  return tokens.map(token => {
+    const reference = token.value.match(/^\{(.+)\}$/);
+    if (!reference) return token;
+
+    const referenced = byPath.get(`${prefix}${reference[1].split('.').join('-')}`);
+    return referenced ? { ...token, value: referenced } : token;
+  });
+}
@@ -1,5 +1,9 @@
-export { VariableEnhancedCSSToSCSSConverter as CSSToSCSSConverter, VariableEnhancedConversionOptions as ConversionOptions } from './variable-enhanced-converter';
+export { VariableEnhancedCSSToSCSSConverter as CSSToSCSSConverter, VariableEnhancedConversionOptions as ConversionOptions, ConversionWithSourceMap, ConversionReport, ConversionWarning, MergedRuleGroup, BEMBlockSummary, StageTimings, ExtractedVariable, BatchConversionResult, MergedColorGroup, DerivedColor, MixinSummary, ModuleFile, ModuleConversionResult } from './variable-enhanced-converter';
 export { VariableEnhancedCSSToSCSSConverter as default } from './variable-enhanced-converter';
+export { EquivalenceVerifier, VerifierOptions, VerificationResult, VerificationDifference } from './verifier';
+export { Logger, LogLevel, silentLogger, createConsoleLogger } from './logger';
+export { DesignToken, loadDesignTokens, parseSCSSTokens, parseJSONTokens } from './design-tokens';
+export { RGBAColor, parseColor, normalizeColor, colorDistance, rgbToHSL, adjustColor } from './color';
 
 // Legacy exports
 export { UltimateCSSToSCSSConverter, UltimateConversionOptions } from './ultimate-converter';
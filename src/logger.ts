@@ -0,0 +1,33 @@
+export interface Logger {
+  debug(message: string): void;
+  info(message: string): void;
+  warn(message: string): void;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'silent';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'silent'];
+
+// Default for library use: conversions never write to stdout unless asked to
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {}
+};
+
+export function createConsoleLogger(level: LogLevel = 'info'): Logger {
+  const threshold = LOG_LEVELS.indexOf(level);
+  const enabled = (messageLevel: LogLevel) => LOG_LEVELS.indexOf(messageLevel) >= threshold;
+
+  return {
+    debug: message => {
+      if (enabled('debug')) console.log(message);
+    },
+    info: message => {
+      if (enabled('info')) console.log(message);
+    },
+    warn: message => {
+      if (enabled('warn')) console.warn(message);
+    }
+  };
+}
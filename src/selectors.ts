@@ -0,0 +1,100 @@
+import * as csstree from 'css-tree';
+
+// [ids, classes, types]; :is(), :not() and :has() count as their most specific argument, :where() as nothing
+export function calculateSpecificity(selector: string): number[] {
+  try {
+    return specificityOfNode(csstree.parse(selector, { context: 'selector' }));
+  } catch {
+    return [0, 0, 0];
+  }
+}
+
+function specificityOfNode(node: csstree.CssNode): number[] {
+  const specificity = [0, 0, 0];
+
+  csstree.walk(node, (child: csstree.CssNode) => {
+    switch (child.type) {
+      case 'IdSelector':
+        specificity[0]++;
+        break;
+      case 'ClassSelector':
+      case 'AttributeSelector':
+        specificity[1]++;
+        break;
+      case 'TypeSelector':
+        if (child.name !== '*') specificity[2]++;
+        break;
+      case 'PseudoElementSelector':
+        specificity[2]++;
+        break;
+      case 'PseudoClassSelector': {
+        const name = child.name.toLowerCase();
+        if (name === 'where') return csstree.walk.skip;
+        if (!['is', 'not', 'has', 'matches'].includes(name)) {
+          specificity[1]++;
+          break;
+        }
+        
+        const list = child.children?.first;
+        const highest = (list && list.type === 'SelectorList' ? list.children.toArray() : [])
+          .map(specificityOfNode)
+          .reduce((max, current) => compareSpecificity(current, max) > 0 ? current : max, [0, 0, 0]);
+        highest.forEach((count, index) => specificity[index] += count);
+        return csstree.walk.skip;
+      }
+    }
+    return undefined;
+  });
+
+  return specificity;
+}
+
+export function compareSpecificity(a: number[], b: number[]): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+export function countNestingSelectors(selector: string): number {
+  return findNestingSelectors(selector).length;
+}
+
+// Replaces every `&` nesting selector, leaving an `&` inside a string or an escape as it is
+export function replaceNestingSelectors(selector: string, replacement: string): string {
+  return findNestingSelectors(selector)
+    .reverse()
+    .reduce((result, offset) => result.slice(0, offset) + replacement + result.slice(offset + 1), selector);
+}
+
+function findNestingSelectors(selector: string): number[] {
+  const offsets: number[] = [];
+
+  try {
+    const ast = csstree.parse(selector, {
+      context: 'selector',
+      positions: true,
+      onParseError: error => {
+        throw error;
+      }
+    });
+    csstree.walk(ast, (node: csstree.CssNode) => {
+      if (node.type === 'NestingSelector' && node.loc) offsets.push(node.loc.start.offset);
+    });
+    return offsets;
+  } catch {
+    // Sass-only selectors such as placeholders do not parse as CSS, so only strings are skipped there
+    let quote = '';
+    for (let index = 0; index < selector.length; index++) {
+      const char = selector.charAt(index);
+      if (quote) {
+        if (char === '\\') index++;
+        else if (char === quote) quote = '';
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '\\') {
+        index++;
+      } else if (char === '&') {
+        offsets.push(index);
+      }
+    }
+    return offsets;
+  }
+}
@@ -1,4 +1,5 @@
 import * as csstree from 'css-tree';
+import { Logger, silentLogger } from './logger';
 
 export interface UltimateConversionOptions {
   indentSize?: number;
@@ -11,6 +12,7 @@ export interface UltimateConversionOptions {
   enableDuplicateDetection?: boolean;
   enableAdvancedBEM?: boolean;
   enableMediaQueryGrouping?: boolean;
+  logger?: Logger;
 }
 
 interface ParsedRule {
@@ -66,6 +68,7 @@ export class UltimateCSSToSCSSConverter {
       enableDuplicateDetection: options.enableDuplicateDetection !== false,
       enableAdvancedBEM: options.enableAdvancedBEM !== false,
       enableMediaQueryGrouping: options.enableMediaQueryGrouping !== false,
+      logger: options.logger || silentLogger,
     };
   }
 
@@ -274,7 +277,7 @@ export class UltimateCSSToSCSSConverter {
             });
             
             // Log duplicate detection
-            console.log(`🔄 Merged ${duplicateRules.length} duplicate rules: ${mergedSelectors}`);
+            this.options.logger.info(`🔄 Merged ${duplicateRules.length} duplicate rules: ${mergedSelectors}`);
           } else {
             // Not identical, keep separate
             duplicateRules.forEach(rule => {
@@ -1,4 +1,12 @@
 import * as csstree from 'css-tree';
+import { SourceMapGenerator, RawSourceMap } from 'source-map-js';
+import { EquivalenceVerifier, VerificationResult } from './verifier';
+import { Logger, silentLogger } from './logger';
+import { DesignToken } from './design-tokens';
+import { normalizeColor, parseColor, colorDistance, adjustColor, rgbToHSL, RGBAColor } from './color';
+import { VENDOR_PREFIXES, splitVendorPrefix, isPrefixedProperty, findOutdatedPrefixes } from './vendor-prefixes';
+import { resolveNesting, ResolvedNesting } from './css-nesting';
+import { calculateSpecificity, compareSpecificity } from './selectors';
 
 export interface VariableEnhancedConversionOptions {
   indentSize?: number;
@@ -9,8 +17,10 @@ export interface VariableEnhancedConversionOptions {
   enableSmartNesting?: boolean;
   maxNestingDepth?: number;
   enableDuplicateDetection?: boolean;
+  duplicateMergeMode?: 'aggressive' | 'cascade-safe' | 'extend'; // extend: shared %placeholder instead of merged selectors
   enableAdvancedBEM?: boolean;
   enableMediaQueryGrouping?: boolean;
+  enableMediaQueryNesting?: boolean;
   enableVariableExtraction?: boolean;
   variablePrefix?: string;
   minOccurrences?: number;
@@ -18,6 +28,107 @@ export interface VariableEnhancedConversionOptions {
   extractSizes?: boolean;
   extractFonts?: boolean;
   extractOthers?: boolean;
+  sourceMap?: 'none' | 'inline' | 'file';
+  sourceFileName?: string;
+  outputFileName?: string;
+  logger?: Logger;
+  sharedVariables?: ExtractedVariable[]; // Defined in a shared partial instead of the file itself
+  sharedVariablesModule?: string;
+  designTokens?: DesignToken[]; // Existing variables reused before any name is generated
+  designTokensModule?: string; // @use path of the token file; without it used tokens are declared inline
+  colorMergeThreshold?: number; // CIE76 distance under which shades share a variable, 0 disables
+  colorFunctions?: 'none' | 'legacy' | 'module'; // Rewrite shades of a variable as darken()/lighten()/rgba() or color.adjust()
+  colorFunctionTolerance?: number; // CIE76 distance allowed between a derived color and the original
+  customProperties?: 'preserve' | 'convert' | 'bridge'; // What happens to custom properties defined on :root
+  enableMixinExtraction?: boolean;
+  mixinMinDeclarations?: number; // Smallest shared declaration subset worth a mixin
+  mixinMinOccurrences?: number; // Rules that have to share the subset
+  enableVariantMixins?: boolean; // Parameterized mixins for sibling rules that differ in a few values
+  breakpoints?: 'none' | 'respond-to' | 'bootstrap'; // Rewrite width queries through a breakpoint map and mixins
+  vendorPrefixes?: 'keep' | 'mixin' | 'remove'; // Collapse prefixed groups into @include prefix() or drop outdated prefixes
+  browsers?: string; // Browserslist query for 'remove', empty uses the project's browserslist config
+  cssImports?: 'keep' | 'use'; // Keep @import of local .css files or load the converted partial with @use
+}
+
+export interface ConversionWithSourceMap {
+  scss: string;
+  map: RawSourceMap;
+}
+
+export interface BatchConversionResult {
+  variables: string; // Content of the shared variables partial, empty when nothing is shared
+  sharedVariables: ExtractedVariable[];
+  files: string[]; // SCSS for each input, in input order
+}
+
+export interface ModuleFile {
+  path: string; // Relative to the output directory
+  content: string;
+}
+
+export interface ModuleConversionResult {
+  files: ModuleFile[]; // Partials first, index.scss last
+  warnings: ConversionWarning[];
+}
+
+export interface ConversionReport {
+  scss: string;
+  map?: RawSourceMap;
+  variables: ExtractedVariable[];
+  mergedGroups: MergedRuleGroup[];
+  mergedColors: MergedColorGroup[];
+  derivedColors: DerivedColor[];
+  mixins: MixinSummary[];
+  bemBlocks: BEMBlockSummary[];
+  warnings: ConversionWarning[];
+  timings: StageTimings; // Milliseconds per pipeline stage
+}
+
+export interface MergedRuleGroup {
+  selectors: string[];
+  context: string; // Enclosing at-rules, empty at top level
+}
+
+export interface MergedColorGroup {
+  value: string; // The color that is kept
+  merged: { value: string; distance: number }[];
+}
+
+export interface DerivedColor {
+  value: string; // The original literal
+  expression: string; // The Sass color function that replaced it
+}
+
+export interface MixinSummary {
+  name: string;
+  properties: string[];
+  parameters: string[];
+  occurrences: number; // Rules that include it
+}
+
+export interface BEMBlockSummary {
+  block: string;
+  elements: string[];
+  modifiers: string[];
+}
+
+export interface ConversionWarning {
+  type: 'unsupported-at-rule' | 'unsupported-node' | 'dropped-declaration' | 'merge-skipped' | 'custom-property-kept' | 'unmapped-media-query' | 'cascade-reordered' | 'statement-moved' | 'import-kept';
+  message: string;
+  selector?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface StageTimings {
+  parse: number;
+  extract: number;
+  variables: number;
+  dedupe: number;
+  mixins: number;
+  grouping: number;
+  format: number;
+  total: number;
 }
 
 interface ParsedRule {
@@ -25,8 +136,23 @@ interface ParsedRule {
   declarations: Declaration[];
   specificity: number[];
   bemInfo?: AdvancedBEMInfo;
-  mediaQuery?: string;
+  contexts: AtRuleContext[]; // Enclosing conditional group rules, outermost first
+  children?: ParsedRule[]; // Keyframe blocks of a @keyframes rule
   hash?: string;
+  loc?: SourceLocation;
+}
+
+interface AtRuleContext {
+  name: string;
+  prelude: string;
+  include?: string; // Mixin call written instead of the at-rule, e.g. respond-to(md)
+  anonymous?: number; // Each anonymous @layer is a layer of its own
+  loc?: SourceLocation;
+}
+
+interface SourceLocation {
+  line: number; // 1-based
+  column: number; // 0-based, as in source maps
 }
 
 interface AdvancedBEMInfo {
@@ -38,11 +164,12 @@ interface AdvancedBEMInfo {
 }
 
 interface Declaration {
-  type: 'declaration' | 'comment';
+  type: 'declaration' | 'comment' | 'include' | 'extend'; // Includes carry the mixin call and extends the placeholder in value
   property?: string;
   value: string;
   important?: boolean;
   originalValue?: string; // Store original before variable replacement
+  loc?: SourceLocation;
 }
 
 interface NestedRule {
@@ -52,10 +179,12 @@ interface NestedRule {
   bemInfo?: AdvancedBEMInfo;
   mediaQuery?: string;
   duplicateCount?: number;
+  loc?: SourceLocation;
 }
 
 interface MediaQueryGroup {
   query: string;
+  contexts: AtRuleContext[];
   rules: ParsedRule[];
 }
 
@@ -66,19 +195,138 @@ interface VariableCandidate {
   contexts: string[]; // Where it's used
   category: 'color' | 'size' | 'font' | 'other';
   suggestedName: string;
+  valueKey: string; // Equivalent values (such as #fff and white) share a key
+}
+
+interface ValueToken {
+  value: string;
+  property: string; // Property the token is counted under
+  category: 'color' | 'size' | 'font';
+  start: number; // Offsets in the declaration value
+  end: number;
 }
 
-interface ExtractedVariable {
+// Conditional group rules whose children are regular style rules
+const CONDITIONAL_GROUP_AT_RULES = ['media', 'supports', 'container', 'layer', 'document', '-moz-document', 'scope', 'starting-style'];
+
+// Statement at-rules that have to lead the stylesheet; @layer only in its blockless form declaring the layer order
+const STATEMENT_AT_RULES = ['charset', 'import', 'layer', 'namespace'];
+
+const KEYFRAMES_AT_RULES = ['keyframes', '-webkit-keyframes', '-moz-keyframes', '-o-keyframes'];
+
+// Conditional group rules that Sass bubbles out of a style rule when nested inside it
+const NESTABLE_AT_RULES = ['media', 'supports', 'container'];
+
+// Units of the lengths that are extracted from compound values
+const LENGTH_UNITS = ['px', 'em', 'rem', 'vh', 'vw', 'vmin', 'vmax', 'pt', 'pc', 'in', 'cm', 'mm', 'ex', 'ch'];
+
+const COLOR_FUNCTIONS = ['rgb', 'rgba', 'hsl', 'hsla'];
+
+// Functions whose arguments must be left alone; var() fallbacks are regular values
+const OPAQUE_FUNCTIONS = ['env', 'attr', 'url', 'format', 'local'];
+
+// Properties where identifiers name animations or properties rather than colors
+const NON_COLOR_IDENTIFIER_PROPERTIES = ['animation', 'animation-name', 'transition', 'transition-property', 'will-change', 'font', 'font-family', 'grid-area', 'grid-template-areas'];
+
+// More arguments than this and a variant mixin hides less than it costs to read
+const MAX_VARIANT_PARAMETERS = 3;
+
+// Short parameter names for the properties variants usually differ in
+const PARAMETER_NAMES: { [property: string]: string } = {
+  'background': 'bg', 'background-color': 'bg', 'border': 'border', 'border-color': 'border', 'color': 'color'
+};
+
+// A single width feature, optionally after a media type: screen and (min-width:768px)
+const WIDTH_QUERY_PATTERN = /^(?:((?:only\s+)?[a-z]+)\s+and\s+)?\(\s*(min|max)-width\s*:\s*(\d*\.?\d+)(px|em|rem)\s*\)$/i;
+
+// Partial names taken by the module output itself
+const RESERVED_PARTIALS = ['variables', 'mixins', 'base', 'index'];
+
+// Bootstrap's default grid breakpoints, the names widths are given when they match
+const BOOTSTRAP_BREAKPOINTS: { [width: string]: string } = {
+  '576px': 'sm', '768px': 'md', '992px': 'lg', '1200px': 'xl', '1400px': 'xxl'
+};
+
+// Larger lightness steps relate almost any two colors of a similar hue
+const MAX_LIGHTNESS_ADJUSTMENT = 20;
+
+// Marks the source position of a generated line until the source map is built
+const SOURCE_MARKER_PATTERN = /\u0000(\d+):(\d+)\u0000/;
+
+export interface ExtractedVariable {
   name: string;
   value: string;
   category: 'color' | 'size' | 'font' | 'other';
   occurrences: number;
+  expression?: string; // Sass expression written instead of the value, such as darken($color-primary-blue, 7.5%)
+}
+
+interface MixinDefinition {
+  name: string;
+  parameters: string[]; // Including the $, empty for plain mixins
+  declarations: Declaration[];
+  occurrences: number;
+}
+
+interface PlaceholderDefinition {
+  name: string; // Including the %
+  contexts: AtRuleContext[];
+  declarations: Declaration[];
+}
+
+interface BreakpointMixin {
+  name: string;
+  feature: 'min-width' | 'max-width';
+  mediaType: string; // Empty when the queries have none
+}
+
+interface ColorBase {
+  name: string;
+  color: RGBAColor;
+  token?: DesignToken;
+}
+
+interface StatementAtRule {
+  name: string; // charset, import, layer or namespace
+  prelude: string;
+  module?: string; // Converted partial loaded with @use in place of a local .css import
+  loc?: SourceLocation;
+}
+
+interface SourceComment {
+  value: string;
+  offset: number;
+  loc: SourceLocation;
+}
+
+// Everything a single conversion accumulates, so one instance can run many conversions at once
+interface ConversionState {
+  rules: ParsedRule[];
+  variableCandidates: Map<string, VariableCandidate>;
+  extractedVariables: Map<string, ExtractedVariable>;
+  mergedGroups: MergedRuleGroup[];
+  warnings: ConversionWarning[];
+  timings: StageTimings;
+  emitSourceMarkers: boolean;
+  usedTokens: Map<string, DesignToken>;
+  colorAliases: Map<string, string>; // Normalized color -> normalized color it was merged into
+  mergedColors: MergedColorGroup[];
+  derivedColors: DerivedColor[];
+  customPropertyVariables: Map<string, ExtractedVariable>; // Custom property name -> Sass variable replacing or bridging it
+  mixins: Map<string, MixinDefinition>;
+  placeholders: Map<string, PlaceholderDefinition>;
+  breakpoints: Map<string, string>; // Breakpoint name -> width
+  breakpointMixins: BreakpointMixin[];
+  usesPrefixMixin: boolean;
+  sourceComments: SourceComment[]; // Comments reported by the parser that no rule has claimed yet
+  fontFaceFamilies: Set<string>; // Family names as written in @font-face
+  statements: StatementAtRule[];
+  anonymousLayers: number;
 }
 
 export class VariableEnhancedCSSToSCSSConverter {
   private options: Required<VariableEnhancedConversionOptions>;
-  private variableCandidates: Map<string, VariableCandidate> = new Map();
-  private extractedVariables: Map<string, ExtractedVariable> = new Map();
+  private tokensByValue: Map<string, DesignToken> = new Map();
 
   constructor(options: VariableEnhancedConversionOptions = {}) {
     this.options = {
@@ -90,8 +338,10 @@ export class VariableEnhancedCSSToSCSSConverter {
       enableSmartNesting: options.enableSmartNesting !== false,
       maxNestingDepth: options.maxNestingDepth || 5,
       enableDuplicateDetection: options.enableDuplicateDetection !== false,
+      duplicateMergeMode: options.duplicateMergeMode || 'aggressive',
       enableAdvancedBEM: options.enableAdvancedBEM !== false,
       enableMediaQueryGrouping: options.enableMediaQueryGrouping !== false,
+      enableMediaQueryNesting: options.enableMediaQueryNesting || false,
       enableVariableExtraction: options.enableVariableExtraction !== false,
       variablePrefix: options.variablePrefix || '$',
       minOccurrences: options.minOccurrences || 2,
@@ -99,194 +349,920 @@ export class VariableEnhancedCSSToSCSSConverter {
       extractSizes: options.extractSizes !== false,
       extractFonts: options.extractFonts !== false,
       extractOthers: options.extractOthers !== false,
+      sourceMap: options.sourceMap || 'none',
+      sourceFileName: options.sourceFileName || 'input.css',
+      outputFileName: options.outputFileName || 'output.scss',
+      logger: options.logger || silentLogger,
+      sharedVariables: options.sharedVariables || [],
+      sharedVariablesModule: options.sharedVariablesModule || 'variables',
+      designTokens: options.designTokens || [],
+      designTokensModule: options.designTokensModule || '',
+      colorMergeThreshold: options.colorMergeThreshold || 0,
+      colorFunctions: options.colorFunctions || 'none',
+      colorFunctionTolerance: options.colorFunctionTolerance ?? 1,
+      customProperties: options.customProperties || 'preserve',
+      enableMixinExtraction: options.enableMixinExtraction || false,
+      mixinMinDeclarations: options.mixinMinDeclarations || 3,
+      mixinMinOccurrences: options.mixinMinOccurrences || 3,
+      enableVariantMixins: options.enableVariantMixins || false,
+      breakpoints: options.breakpoints || 'none',
+      vendorPrefixes: options.vendorPrefixes || 'keep',
+      browsers: options.browsers || '',
+      cssImports: options.cssImports || 'keep',
     };
+    
+    // The first token defined for a value wins
+    this.options.designTokens.forEach(token => {
+      const key = this.normalizeValue(token.value);
+      if (!this.tokensByValue.has(key)) {
+        this.tokensByValue.set(key, token);
+      }
+    });
   }
 
   async convert(cssContent: string): Promise<string> {
+    return this.runConversion(cssContent, this.options.sourceMap !== 'none').scss;
+  }
+
+  async convertWithSourceMap(cssContent: string): Promise<ConversionWithSourceMap> {
+    const { scss, map } = this.runConversion(cssContent, true);
+    return { scss, map: map! };
+  }
+
+  async convertWithReport(cssContent: string): Promise<ConversionReport> {
+    const { scss, map, state } = this.runConversion(cssContent, this.options.sourceMap !== 'none');
+    
+    return {
+      scss,
+      map,
+      variables: Array.from(state.extractedVariables.values()),
+      mergedGroups: state.mergedGroups,
+      mergedColors: state.mergedColors,
+      derivedColors: state.derivedColors,
+      mixins: Array.from(state.mixins.values()).map(mixin => ({
+        name: mixin.name,
+        properties: mixin.declarations.map(decl => decl.property!),
+        parameters: mixin.parameters,
+        occurrences: mixin.occurrences
+      })),
+      bemBlocks: this.collectBEMBlocks(state.rules),
+      warnings: state.warnings,
+      timings: state.timings
+    };
+  }
+
+  async convertBatch(cssContents: string[]): Promise<BatchConversionResult> {
+    const sharedVariables = await this.analyzeSharedVariables(cssContents);
+    const converter = new VariableEnhancedCSSToSCSSConverter({ ...this.options, sharedVariables });
+    
+    return {
+      variables: sharedVariables.length > 0 ? this.formatVariablesPartial(sharedVariables) : '',
+      sharedVariables,
+      files: await Promise.all(cssContents.map(cssContent => converter.convert(cssContent)))
+    };
+  }
+
+  async convertToModules(cssContent: string): Promise<ModuleConversionResult> {
+    const state = this.createState(false);
+    const startTime = performance.now();
+    
     try {
-      const ast = csstree.parse(cssContent);
-      const rules = this.extractRules(ast);
-      
-      // Step 1: Analyze for variable candidates if enabled
-      if (this.options.enableVariableExtraction) {
-        this.analyzeVariableCandidates(rules);
-        this.extractVariables();
-        this.replaceValuesWithVariables(rules);
-      }
-      
-      // Step 2: Detect and merge duplicates within same media query
-      const deduplicatedRules = this.options.enableDuplicateDetection 
-        ? this.detectAndMergeDuplicates(rules)
-        : rules;
+      const rules = this.prepareRules(cssContent, state);
+      const files: ModuleFile[] = [];
       
-      // Step 3: Group by media queries
-      const mediaGroups = this.options.enableMediaQueryGrouping
-        ? this.groupByMediaQuery(deduplicatedRules)
-        : [{ query: '', rules: deduplicatedRules }];
+      const variables = this.formatVariableSection(state);
+      const mixins = this.formatMixinSection(state);
+      const variablesUse = variables ? "@use 'variables' as *;\n" : '';
+      const uses = variablesUse + (mixins ? "@use 'mixins' as *;\n" : '');
       
-      // Step 4: Build nested structure for each media query group
-      let result = '';
-      
-      // Add variables at the top if any were extracted
-      if (this.options.enableVariableExtraction && this.extractedVariables.size > 0) {
-        result += this.formatVariables();
-        result += '\n';
-      }
+      if (variables) files.push({ path: '_variables.scss', content: variables.trim() + '\n' });
+      if (mixins) files.push({ path: '_mixins.scss', content: `${variablesUse ? variablesUse + '\n' : ''}${mixins}`.trim() + '\n' });
       
-      mediaGroups.forEach(group => {
-        const nestedStructure = this.buildAdvancedNestedStructure(group.rules);
-        const formattedCSS = this.formatSCSS(nestedStructure);
-        
-        if (group.query) {
-          result += `@media ${group.query} {\n`;
-          result += this.indentContent(formattedCSS, 1);
-          result += '}\n\n';
-        } else {
-          result += formattedCSS;
-        }
+      // Plain CSS statements have to precede every style rule, so they open the first partial
+      let statements = this.formatCSSStatements(state);
+      const partials = this.splitIntoPartials(rules, state);
+      partials.forEach((partialRules, name) => {
+        const body = this.timeStage(state, 'format', () => this.formatRules(partialRules, state).trim());
+        files.push({ path: `_${name}.scss`, content: `${uses ? uses + '\n' : ''}${statements}${body}\n` });
+        statements = '';
       });
       
-      return result.trim() + '\n';
+      // Forwarding the definitions lets other stylesheets @use the index for them;
+      // the partials replace the stylesheet with a directory, so converted imports are one level up
+      let index = this.formatLeadingStatements(state, '../', Array.from(partials.keys()));
+      index += (variables ? "@forward 'variables';\n" : '') + (mixins ? "@forward 'mixins';\n" : '');
+      index += (index ? '\n' : '') + Array.from(partials.keys()).map(name => `@use '${name}';\n`).join('');
+      files.push({ path: 'index.scss', content: index });
+      
+      this.options.logger.info(`📁 Split ${rules.length} rules into ${partials.size} partials`);
+      return { files, warnings: state.warnings };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`Failed to convert CSS: ${errorMessage}`);
+    } finally {
+      state.timings.total = performance.now() - startTime;
     }
   }
 
-  private analyzeVariableCandidates(rules: ParsedRule[]): void {
-    const valueOccurrences = new Map<string, { count: number; contexts: string[]; properties: Set<string> }>();
+  async analyzeSharedVariables(cssContents: string[]): Promise<ExtractedVariable[]> {
+    if (!this.options.enableVariableExtraction) return [];
     
-    rules.forEach(rule => {
-      rule.declarations.forEach(decl => {
-        if (decl.type === 'declaration' && decl.property && decl.value) {
-          const category = this.categorizeValue(decl.property, decl.value);
-          
-          // Skip if category is disabled
-          if (!this.shouldExtractCategory(category)) return;
-          
-          const key = `${decl.property}:${decl.value}`;
+    const projectState = this.createState(false);
+    const fileCounts = new Map<string, number>();
+    
+    try {
+      cssContents.forEach(cssContent => {
+        const fileState = this.createState(false);
+        const rules = this.extractRules(csstree.parse(resolveNesting(cssContent)?.css ?? cssContent), fileState);
+        this.analyzeVariableCandidates(rules, fileState);
+        
+        const fileValues = new Set<string>();
+        fileState.variableCandidates.forEach((candidate, key) => {
+          fileValues.add(`${candidate.category}:${candidate.valueKey}`);
           
-          if (!valueOccurrences.has(key)) {
-            valueOccurrences.set(key, {
-              count: 0,
-              contexts: [],
-              properties: new Set()
-            });
+          const projectCandidate = projectState.variableCandidates.get(key);
+          if (projectCandidate) {
+            projectCandidate.occurrences += candidate.occurrences;
+            projectCandidate.contexts.push(...candidate.contexts);
+          } else {
+            projectState.variableCandidates.set(key, { ...candidate, contexts: [...candidate.contexts] });
           }
-          
-          const occurrence = valueOccurrences.get(key)!;
-          occurrence.count++;
-          occurrence.contexts.push(rule.selector);
-          occurrence.properties.add(decl.property);
-          
-          // Create or update variable candidate
-          if (!this.variableCandidates.has(key)) {
-            this.variableCandidates.set(key, {
-              value: decl.value,
-              property: decl.property,
-              occurrences: 0,
-              contexts: [],
-              category,
-              suggestedName: this.generateVariableName(decl.property, decl.value, category)
-            });
+        });
+        
+        fileValues.forEach(valueKey => fileCounts.set(valueKey, (fileCounts.get(valueKey) || 0) + 1));
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to analyze CSS: ${errorMessage}`);
+    }
+    
+    // Values used by a single file stay local to that file
+    projectState.variableCandidates.forEach((candidate, key) => {
+      if ((fileCounts.get(`${candidate.category}:${candidate.valueKey}`) || 0) < 2) {
+        projectState.variableCandidates.delete(key);
+      }
+    });
+    
+    this.extractVariables(projectState);
+    this.deriveColorVariables(projectState);
+    return Array.from(projectState.extractedVariables.values());
+  }
+
+  private getValueKey(value: string, state: ConversionState): string {
+    const color = normalizeColor(value);
+    if (!color) return value;
+    return state.colorAliases.get(color) || color;
+  }
+
+  private mergeSimilarColors(state: ConversionState): void {
+    if (this.options.colorMergeThreshold <= 0) return;
+    
+    const colors = new Map<string, { value: string; occurrences: number }>();
+    state.variableCandidates.forEach(candidate => {
+      if (candidate.category !== 'color' || !normalizeColor(candidate.value)) return;
+      
+      const entry = colors.get(candidate.valueKey) || { value: candidate.value, occurrences: 0 };
+      entry.occurrences += candidate.occurrences;
+      colors.set(candidate.valueKey, entry);
+    });
+    
+    // The most used shade of each cluster is kept, the others are folded into it
+    const groups: { key: string; color: RGBAColor; group: MergedColorGroup }[] = [];
+    Array.from(colors.entries())
+      .sort(([, a], [, b]) => b.occurrences - a.occurrences)
+      .forEach(([key, entry]) => {
+        const color = parseColor(key)!;
+        let closest: { target: typeof groups[number]; distance: number } | undefined;
+        
+        groups.forEach(target => {
+          if (Math.abs(target.color.a - color.a) > 0.01) return;
+          const distance = colorDistance(target.color, color);
+          if (distance <= this.options.colorMergeThreshold && (!closest || distance < closest.distance)) {
+            closest = { target, distance };
           }
-          
-          const candidate = this.variableCandidates.get(key)!;
-          candidate.occurrences = occurrence.count;
-          candidate.contexts = occurrence.contexts;
+        });
+        
+        if (!closest) {
+          groups.push({ key, color, group: { value: entry.value, merged: [] } });
+          return;
         }
+        
+        closest.target.group.merged.push({ value: entry.value, distance: Math.round(closest.distance * 100) / 100 });
+        state.colorAliases.set(key, closest.target.key);
+        this.options.logger.info(`🎨 Merged color ${entry.value} into ${closest.target.group.value} (distance ${closest.distance.toFixed(2)})`);
       });
+    
+    // Fold the candidates of merged shades into the kept color so their uses count together
+    const keptValues = new Map(groups.map(({ key, group }) => [key, group.value]));
+    const candidates = new Map<string, VariableCandidate>();
+    
+    state.variableCandidates.forEach(candidate => {
+      const alias = state.colorAliases.get(candidate.valueKey);
+      const keptCandidate = alias ? {
+        ...candidate,
+        value: keptValues.get(alias)!,
+        valueKey: alias,
+        suggestedName: this.generateVariableName(candidate.property, keptValues.get(alias)!, candidate.category)
+      } : candidate;
+      
+      const key = `${keptCandidate.property}:${keptCandidate.valueKey}`;
+      const existing = candidates.get(key);
+      if (existing) {
+        existing.occurrences += keptCandidate.occurrences;
+        existing.contexts = [...existing.contexts, ...keptCandidate.contexts];
+      } else {
+        candidates.set(key, keptCandidate);
+      }
     });
+    
+    state.variableCandidates = candidates;
+    state.mergedColors = groups.map(({ group }) => group).filter(group => group.merged.length > 0);
   }
 
-  private categorizeValue(property: string, value: string): 'color' | 'size' | 'font' | 'other' {
-    // Color detection
-    if (this.isColorProperty(property) || this.isColorValue(value)) {
-      return 'color';
-    }
+  private findDesignToken(value: string): DesignToken | undefined {
+    return this.tokensByValue.get(this.normalizeValue(value));
+  }
+
+  private normalizeValue(value: string): string {
+    // Equivalent color notations (#fff, white, rgb(255, 255, 255)) share one key
+    return normalizeColor(value) || value.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  private formatDesignTokens(state: ConversionState): string {
+    let result = '// Design tokens\n';
+    state.usedTokens.forEach(token => {
+      result += `${token.name}: ${token.value};\n`;
+    });
+    return result + '\n';
+  }
+
+  formatVariablesPartial(variables: ExtractedVariable[]): string {
+    const state = this.createState(false);
+    variables.forEach(variable => state.extractedVariables.set(variable.name, variable));
     
-    // Size detection
-    if (this.isSizeProperty(property) || this.isSizeValue(value)) {
-      return 'size';
+    const usesColorModule = this.options.colorFunctions === 'module' && variables.some(variable => variable.expression);
+    return (usesColorModule ? "@use 'sass:color';\n\n" : '') + this.formatVariables(state);
+  }
+
+  private runConversion(cssContent: string, withSourceMap: boolean): { scss: string; map?: RawSourceMap; state: ConversionState } {
+    const state = this.createState(withSourceMap);
+    const markedResult = this.convertToSCSS(cssContent, state);
+    
+    if (!withSourceMap) {
+      return { scss: markedResult, state };
     }
     
-    // Font detection
-    if (this.isFontProperty(property)) {
-      return 'font';
+    const { scss, map } = this.buildSourceMap(markedResult, cssContent);
+    
+    // The map is always returned; the comment only tells tools where to find it
+    let comment = '';
+    if (this.options.sourceMap === 'inline') {
+      const encoded = Buffer.from(JSON.stringify(map)).toString('base64');
+      comment = `/*# sourceMappingURL=data:application/json;charset=utf-8;base64,${encoded} */\n`;
+    } else if (this.options.sourceMap === 'file') {
+      comment = `/*# sourceMappingURL=${this.getBaseName(this.options.outputFileName)}.map */\n`;
     }
     
-    return 'other';
+    return { scss: scss + comment, map, state };
   }
 
-  private isColorProperty(property: string): boolean {
-    const colorProperties = [
-      'color', 'background-color', 'border-color', 'outline-color',
-      'text-decoration-color', 'caret-color', 'column-rule-color',
-      'border-top-color', 'border-right-color', 'border-bottom-color', 'border-left-color'
-    ];
-    return colorProperties.includes(property);
+  private convertToSCSS(cssContent: string, state: ConversionState): string {
+    const startTime = performance.now();
+    
+    try {
+      const rules = this.prepareRules(cssContent, state);
+      const body = this.formatRules(rules, state);
+      
+      return this.timeStage(state, 'format', () => (
+        this.formatLeadingStatements(state) +
+        this.formatVariableSection(state) +
+        this.formatCSSStatements(state) +
+        this.formatMixinSection(state) +
+        body
+      ).trim() + '\n');
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to convert CSS: ${errorMessage}`);
+    } finally {
+      state.timings.total = performance.now() - startTime;
+    }
   }
 
-  private isColorValue(value: string): boolean {
-    // Hex colors
-    if (/^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/.test(value)) return true;
+  private prepareRules(cssContent: string, state: ConversionState): ParsedRule[] {
+    const ast = this.timeStage(state, 'parse', () => {
+      // Native nesting is written out in full first; positions are mapped back to the nested source
+      const nesting = resolveNesting(cssContent);
+      const parsed = csstree.parse(nesting ? nesting.css : cssContent, {
+        positions: true,
+        filename: this.options.sourceFileName,
+        onComment: (value, loc) => {
+          const start = this.toOriginalPosition(loc.start, nesting);
+          state.sourceComments.push({ value, offset: loc.start.offset, loc: { line: start.line, column: start.column - 1 } });
+        }
+      });
+      
+      if (nesting) {
+        csstree.walk(parsed, (node: csstree.CssNode) => {
+          if (node.loc) node.loc.start = { ...node.loc.start, ...this.toOriginalPosition(node.loc.start, nesting) };
+        });
+      }
+      return parsed;
+    });
+    const rules = this.timeStage(state, 'extract', () => {
+      let extracted = this.applyCustomPropertyPolicy(this.extractRules(ast, state), state);
+      if (this.options.vendorPrefixes === 'remove') extracted = this.removeOutdatedPrefixes(extracted, cssContent);
+      if (this.options.breakpoints !== 'none') this.applyBreakpoints(extracted, state);
+      return extracted;
+    });
+    state.rules = rules;
+    this.options.logger.debug(`📄 Extracted ${rules.length} rules from ${this.options.sourceFileName}`);
+    
+    // Step 1: Analyze for variable candidates if enabled
+    if (this.options.enableVariableExtraction) {
+      this.timeStage(state, 'variables', () => {
+        this.analyzeVariableCandidates(rules, state);
+        this.mergeSimilarColors(state);
+        this.extractVariables(state);
+        this.deriveColorVariables(state);
+        this.replaceValuesWithVariables(rules, state);
+      });
+    }
     
-    // RGB/RGBA
-    if (/^rgba?\(/.test(value)) return true;
+    // Step 2: Detect and merge duplicates within same media query
+    const deduplicatedRules = this.options.enableDuplicateDetection 
+      ? this.timeStage(state, 'dedupe', () => this.detectAndMergeDuplicates(rules, state))
+      : rules;
+    
+    if (this.options.enableMixinExtraction || this.options.enableVariantMixins || this.options.vendorPrefixes === 'mixin') {
+      this.timeStage(state, 'mixins', () => {
+        if (this.options.vendorPrefixes === 'mixin') this.collapseVendorPrefixes(deduplicatedRules, state);
+        // Variants take whole rule bodies, so they go before the shared subsets
+        if (this.options.enableVariantMixins) this.extractVariantMixins(deduplicatedRules, state);
+        if (this.options.enableMixinExtraction) this.extractMixins(deduplicatedRules, state);
+      });
+    }
     
-    // HSL/HSLA
-    if (/^hsla?\(/.test(value)) return true;
+    return deduplicatedRules;
+  }
+
+  private splitIntoPartials(rules: ParsedRule[], state: ConversionState): Map<string, ParsedRule[]> {
+    // One partial per BEM block, everything else (element selectors, @font-face, @keyframes...) in _base;
+    // the BEM parse reads a block modifier such as .card--big as a block of its own, so it is cut back to its block name
+    const blockPartialOf = (rule: ParsedRule) => {
+      const block = rule.bemInfo?.block.split('--')[0];
+      if (!block) return 'base';
+      return RESERVED_PARTIALS.includes(block) ? `${block}-block` : block;
+    };
     
-    // Named colors (common ones)
-    const namedColors = [
-      'red', 'blue', 'green', 'yellow', 'orange', 'purple', 'pink', 'brown',
-      'black', 'white', 'gray', 'grey', 'transparent', 'currentColor'
-    ];
-    return namedColors.includes(value.toLowerCase());
+    // Keyframes used from a single partial move there
+    const partialOf = (rule: ParsedRule) => {
+      const keyframesName = this.getKeyframesName(rule.selector);
+      if (!keyframesName) return blockPartialOf(rule);
+      
+      const users = new Set(rules
+        .filter(candidate => !candidate.selector.startsWith('@') && this.referencesAnimation(candidate.declarations, keyframesName))
+        .map(blockPartialOf));
+      return users.size === 1 ? Array.from(users)[0] : 'base';
+    };
+    
+    // Comments describe what follows them
+    const names = rules.map((rule, index) => {
+      const next = rules.slice(index).find(candidate => candidate.selector !== '/* COMMENT */');
+      return next ? partialOf(next) : 'base';
+    });
+    
+    // Partials are used in the order their first rule appears
+    const partials = new Map<string, ParsedRule[]>();
+    rules.forEach((rule, index) => {
+      partials.set(names[index], [...(partials.get(names[index]) || []), rule]);
+    });
+    
+    const order = Array.from(partials.keys());
+    rules.forEach((rule, index) => {
+      if (rule.selector === '/* COMMENT */' || rule.selector.startsWith('@')) return;
+      
+      // A later rule that now comes first only matters when it ties on specificity and sets the same property;
+      // media, supports and container conditions may well apply together, while another layer never competes
+      const conflict = rules.slice(index + 1).find((later, offset) =>
+        order.indexOf(names[index + 1 + offset]) < order.indexOf(names[index]) &&
+        !later.selector.startsWith('@') &&
+        this.getLayerKey(later.contexts) === this.getLayerKey(rule.contexts) &&
+        compareSpecificity(later.specificity, rule.specificity) === 0 &&
+        later.declarations.some(laterDecl => laterDecl.property && rule.declarations.some(decl =>
+          decl.property && this.propertiesOverlap(decl.property, laterDecl.property!)))
+      );
+      if (conflict) {
+        const where = conflict.contexts.length > 0 ? ` inside ${this.getContextKey(conflict.contexts)}` : '';
+        const message = `${rule.selector} in _${names[index]}.scss is now output after ${conflict.selector}${where}, which sets the same properties`;
+        this.addWarning(state, 'cascade-reordered', message, rule.loc, rule.selector);
+      }
+    });
+    
+    return partials;
   }
 
-  private isSizeProperty(property: string): boolean {
-    const sizeProperties = [
-      'width', 'height', 'min-width', 'min-height', 'max-width', 'max-height',
-      'padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
-      'margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
-      'border-width', 'border-radius', 'font-size', 'line-height', 'letter-spacing',
-      'top', 'right', 'bottom', 'left', 'gap', 'column-gap', 'row-gap'
-    ];
-    return sizeProperties.includes(property);
+  private formatRules(rules: ParsedRule[], state: ConversionState): string {
+    // Step 3: Group by media queries
+    const mediaGroups = this.timeStage(state, 'grouping', () => this.options.enableMediaQueryGrouping
+      ? this.groupByMediaQuery(rules)
+      : this.groupConsecutiveByContext(rules));
+    
+    // Step 4: Build nested structure for each media query group
+    return this.timeStage(state, 'format', () => this.options.enableMediaQueryNesting
+      ? this.formatNestedMediaGroups(mediaGroups, rules, state)
+      : this.formatMediaGroups(mediaGroups, state));
   }
 
-  private isSizeValue(value: string): boolean {
-    // Check for size units
-    return /^\d+(\.\d+)?(px|em|rem|%|vh|vw|vmin|vmax|pt|pc|in|cm|mm|ex|ch)$/.test(value);
+  // @charset and the @use rules replacing local imports come before everything else
+  private formatLeadingStatements(state: ConversionState, moduleBase: string = '', takenNamespaces: string[] = []): string {
+    let result = '';
+    
+    state.statements.filter(statement => statement.name === 'charset').forEach(statement => {
+      result += `${this.sourceMarker(state, statement.loc)}@charset ${statement.prelude};\n`;
+    });
+    state.statements.filter(statement => statement.module !== undefined).forEach(statement => {
+      const namespace = statement.module!.split('/').pop()!.replace(/^_/, '');
+      const alias = takenNamespaces.includes(namespace) ? ` as ${namespace}-import` : '';
+      result += `${this.sourceMarker(state, statement.loc)}@use '${moduleBase}${statement.module!.replace(/^\.\//, '')}'${alias};\n`;
+    });
+    
+    return result ? result + '\n' : '';
   }
 
-  private isFontProperty(property: string): boolean {
-    const fontProperties = [
-      'font-family', 'font-weight', 'font-style', 'font-variant',
-      'font-stretch', 'font-size', 'line-height'
+  // Plain CSS statements follow every @use, as Sass requires, and precede the first style rule, as CSS requires;
+  // @import and @layer keep their relative order, which decides the layer order
+  private formatCSSStatements(state: ConversionState): string {
+    const statements = [
+      ...state.statements.filter(statement => (statement.name === 'import' && statement.module === undefined) || statement.name === 'layer'),
+      ...state.statements.filter(statement => statement.name === 'namespace')
     ];
-    return fontProperties.includes(property);
+    
+    const result = statements
+      .map(statement => `${this.sourceMarker(state, statement.loc)}@${statement.name} ${statement.prelude};\n`)
+      .join('');
+    return result ? result + '\n' : '';
   }
 
-  private shouldExtractCategory(category: 'color' | 'size' | 'font' | 'other'): boolean {
-    switch (category) {
-      case 'color': return this.options.extractColors;
-      case 'size': return this.options.extractSizes;
-      case 'font': return this.options.extractFonts;
-      case 'other': return this.options.extractOthers;
-      default: return false;
+  // Everything that defines values: modules, tokens, variables and the breakpoint map
+  private formatVariableSection(state: ConversionState): string {
+    let result = '';
+    
+    if (this.options.colorFunctions === 'module' && state.derivedColors.length > 0) {
+      result += "@use 'sass:color';\n\n";
     }
-  }
-
-  private generateVariableName(property: string, value: string, category: 'color' | 'size' | 'font' | 'other'): string {
-    const prefix = this.options.variablePrefix;
     
-    // Clean value for naming
-    let cleanValue = value
-      .replace(/[^a-zA-Z0-9]/g, '-')
-      .replace(/-+/g, '-')
-      .replace(/^-|-$/g, '')
+    if (this.options.sharedVariables.length > 0) {
+      result += `@use '${this.options.sharedVariablesModule}' as *;\n\n`;
+    }
+    
+    if (state.usedTokens.size > 0) {
+      result += this.options.designTokensModule
+        ? `@use '${this.options.designTokensModule}' as *;\n\n`
+        : this.formatDesignTokens(state);
+    }
+    
+    if (state.customPropertyVariables.size > 0) {
+      result += this.formatCustomPropertyVariables(state);
+    }
+    
+    // Add variables at the top if any were extracted
+    if (this.options.enableVariableExtraction && state.extractedVariables.size > 0) {
+      result += this.formatVariables(state);
+      result += '\n';
+    }
+    
+    if (state.breakpoints.size > 0) {
+      result += this.formatBreakpointMap(state);
+    }
+    
+    return result;
+  }
+
+  // Everything that emits nothing until it is used: mixins and placeholders
+  private formatMixinSection(state: ConversionState): string {
+    let result = '';
+    
+    if (state.breakpointMixins.length > 0) {
+      result += this.formatBreakpointMixins(state);
+    }
+    
+    if (state.mixins.size > 0 || state.usesPrefixMixin) {
+      result += this.formatMixins(state);
+    }
+    
+    if (state.placeholders.size > 0) {
+      result += this.formatPlaceholders(state);
+    }
+    
+    return result;
+  }
+
+  private createState(emitSourceMarkers: boolean): ConversionState {
+    return {
+      rules: [],
+      variableCandidates: new Map(),
+      extractedVariables: new Map(),
+      mergedGroups: [],
+      warnings: [],
+      timings: this.createTimings(),
+      emitSourceMarkers,
+      usedTokens: new Map(),
+      colorAliases: new Map(),
+      mergedColors: [],
+      derivedColors: [],
+      customPropertyVariables: new Map(),
+      mixins: new Map(),
+      placeholders: new Map(),
+      breakpoints: new Map(),
+      breakpointMixins: [],
+      usesPrefixMixin: false,
+      sourceComments: [],
+      fontFaceFamilies: new Set(),
+      statements: [],
+      anonymousLayers: 0
+    };
+  }
+
+  private createTimings(): StageTimings {
+    return { parse: 0, extract: 0, variables: 0, dedupe: 0, mixins: 0, grouping: 0, format: 0, total: 0 };
+  }
+
+  private timeStage<T>(state: ConversionState, stage: keyof StageTimings, run: () => T): T {
+    const start = performance.now();
+    try {
+      return run();
+    } finally {
+      const elapsed = performance.now() - start;
+      state.timings[stage] += elapsed;
+      this.options.logger.debug(`⏱️ ${stage}: ${elapsed.toFixed(2)}ms`);
+    }
+  }
+
+  private collectBEMBlocks(rules: ParsedRule[]): BEMBlockSummary[] {
+    const blocks = new Map<string, { elements: Set<string>; modifiers: Set<string> }>();
+    
+    rules.forEach(rule => {
+      if (!rule.bemInfo) return;
+      
+      const { block, elements, modifier } = rule.bemInfo;
+      if (!blocks.has(block)) {
+        blocks.set(block, { elements: new Set(), modifiers: new Set() });
+      }
+      
+      const summary = blocks.get(block)!;
+      if (elements.length > 0) summary.elements.add(elements.join('__'));
+      if (modifier) summary.modifiers.add(modifier);
+    });
+    
+    return Array.from(blocks.entries()).map(([block, summary]) => ({
+      block,
+      elements: Array.from(summary.elements),
+      modifiers: Array.from(summary.modifiers)
+    }));
+  }
+
+  private addWarning(state: ConversionState, type: ConversionWarning['type'], message: string, loc?: SourceLocation, selector?: string): void {
+    this.options.logger.warn(`⚠️ ${message}`);
+    state.warnings.push({
+      type,
+      message,
+      selector,
+      line: loc?.line,
+      column: loc?.column
+    });
+  }
+
+  private buildSourceMap(markedResult: string, cssContent: string): { scss: string; map: RawSourceMap } {
+    const generator = new SourceMapGenerator({ file: this.getBaseName(this.options.outputFileName) });
+    generator.setSourceContent(this.options.sourceFileName, cssContent);
+    
+    const lines = markedResult.split('\n').map((line, index) => {
+      const match = line.match(SOURCE_MARKER_PATTERN);
+      if (!match || match.index === undefined) return line;
+      
+      generator.addMapping({
+        source: this.options.sourceFileName,
+        generated: { line: index + 1, column: match.index },
+        original: { line: Number(match[1]), column: Number(match[2]) }
+      });
+      
+      return line.replace(SOURCE_MARKER_PATTERN, '');
+    });
+    
+    return { scss: lines.join('\n'), map: generator.toJSON() };
+  }
+
+  private sourceMarker(state: ConversionState, loc?: SourceLocation): string {
+    if (!state.emitSourceMarkers || !loc) return '';
+    return `\u0000${loc.line}:${loc.column}\u0000`;
+  }
+
+  // css-tree columns are 1-based, source map columns 0-based
+  private toOriginalPosition(position: { line: number; column: number }, nesting: ResolvedNesting | null): { line: number; column: number } {
+    const original = nesting ? nesting.originalPosition(position.line, position.column - 1) : null;
+    return original ? { line: original.line, column: original.column + 1 } : { line: position.line, column: position.column };
+  }
+
+  private toSourceLocation(node: csstree.CssNode): SourceLocation | undefined {
+    if (!node.loc) return undefined;
+    // css-tree columns are 1-based, source map columns are 0-based
+    return { line: node.loc.start.line, column: node.loc.start.column - 1 };
+  }
+
+  private getBaseName(filePath: string): string {
+    return filePath.split(/[\\/]/).pop() || filePath;
+  }
+
+  async verify(cssContent: string): Promise<VerificationResult> {
+    const scssContent = await this.convert(cssContent);
+    
+    try {
+      return new EquivalenceVerifier({
+        inlineCustomProperties: this.options.customProperties === 'convert',
+        removeOutdatedPrefixes: this.options.vendorPrefixes === 'remove',
+        browsers: this.options.browsers,
+        cssImportsAsUse: this.options.cssImports === 'use'
+      }).verify(cssContent, scssContent);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to verify SCSS: ${errorMessage}`);
+    }
+  }
+
+  private analyzeVariableCandidates(rules: ParsedRule[], state: ConversionState): void {
+    const valueOccurrences = new Map<string, { count: number; contexts: string[]; properties: Set<string> }>();
+    
+    rules.flatMap(rule => [rule, ...(rule.children || [])]).forEach(rule => {
+      rule.declarations.forEach(decl => {
+        if (decl.type === 'declaration' && decl.property && decl.value) {
+          // Compound values are counted per color, length and font stack they contain
+          const tokens = this.extractValueTokens(decl.property, decl.value, state);
+          const entries = tokens || [{ property: decl.property, value: decl.value, category: this.categorizeValue(decl.property, decl.value) }];
+          
+          entries.forEach(({ property, value, category }) => {
+            // Skip if category is disabled, or if the value already refers to a Sass or custom property variable
+            if (!this.shouldExtractCategory(category) || value.includes('$') || (!tokens && value.includes('var('))) return;
+            
+            const valueKey = this.getValueKey(value, state);
+            const key = `${property}:${valueKey}`;
+            
+            if (!valueOccurrences.has(key)) {
+              valueOccurrences.set(key, {
+                count: 0,
+                contexts: [],
+                properties: new Set()
+              });
+            }
+            
+            const occurrence = valueOccurrences.get(key)!;
+            occurrence.count++;
+            occurrence.contexts.push(rule.selector);
+            occurrence.properties.add(property);
+            
+            // Create or update variable candidate
+            if (!state.variableCandidates.has(key)) {
+              state.variableCandidates.set(key, {
+                value,
+                property,
+                occurrences: 0,
+                contexts: [],
+                category,
+                suggestedName: this.generateVariableName(property, value, category),
+                valueKey
+              });
+            }
+            
+            const candidate = state.variableCandidates.get(key)!;
+            candidate.occurrences = occurrence.count;
+            candidate.contexts = occurrence.contexts;
+          });
+        }
+      });
+    });
+  }
+
+  private extractValueTokens(property: string, value: string, state: ConversionState): ValueToken[] | null {
+    if (property === 'font-family') return this.extractFontFaceFamilyTokens(value, state);
+    if (property.startsWith('@') || property.startsWith('--')) return null;
+    
+    let ast: csstree.CssNode;
+    try {
+      ast = csstree.parse(value, { context: 'value', positions: true });
+    } catch {
+      return null;
+    }
+    
+    if (ast.type !== 'Value') return null;
+    
+    // A single color or length is handled as a whole value
+    const first = ast.children.first;
+    if (ast.children.size === 1 && first && (first.type !== 'Function' || COLOR_FUNCTIONS.includes(first.name.toLowerCase()))) {
+      return null;
+    }
+    
+    const tokens: ValueToken[] = [];
+    // Offsets of nodes parsed from a Raw fallback are relative to that fallback
+    const addToken = (node: csstree.CssNode, category: ValueToken['category'], base: number) => {
+      if (!node.loc) return;
+      const start = base + node.loc.start.offset;
+      const end = base + node.loc.end.offset;
+      tokens.push({ value: value.slice(start, end), property, category, start, end });
+    };
+    
+    const visit = (node: csstree.CssNode, base: number = 0) => {
+      switch (node.type) {
+        case 'Hash':
+          if (parseColor(`#${node.value}`)) addToken(node, 'color', base);
+          return;
+        case 'Identifier':
+          if (!NON_COLOR_IDENTIFIER_PROPERTIES.includes(property) && parseColor(node.name)) addToken(node, 'color', base);
+          return;
+        case 'Dimension':
+          if (LENGTH_UNITS.includes(node.unit.toLowerCase()) && parseFloat(node.value) !== 0) addToken(node, 'size', base);
+          return;
+        case 'Function': {
+          const name = node.name.toLowerCase();
+          if (COLOR_FUNCTIONS.includes(name)) {
+            const start = base + node.loc!.start.offset;
+            if (parseColor(value.slice(start, base + node.loc!.end.offset))) addToken(node, 'color', base);
+            return;
+          }
+          if (!OPAQUE_FUNCTIONS.includes(name)) node.children.forEach(child => visit(child, base));
+          return;
+        }
+        case 'Parentheses':
+          node.children.forEach(child => visit(child, base));
+          return;
+        case 'Raw': {
+          // css-tree keeps var() fallbacks as raw text
+          if (!node.loc) return;
+          try {
+            const fallback = csstree.parse(node.value, { context: 'value', positions: true });
+            if (fallback.type === 'Value') {
+              fallback.children.forEach(child => visit(child, base + node.loc!.start.offset));
+            }
+          } catch {
+            // Not a regular value, left as it is
+          }
+          return;
+        }
+      }
+    };
+    
+    const children = ast.children.toArray();
+    const fontStackStart = property === 'font' ? this.findFontStackStart(children) : -1;
+    
+    children.forEach((node, index) => {
+      if (fontStackStart >= 0 && index >= fontStackStart) return;
+      visit(node);
+    });
+    
+    // The family list of the font shorthand is shared with font-family declarations
+    if (fontStackStart >= 0) {
+      const start = children[fontStackStart].loc!.start.offset;
+      const end = children[children.length - 1].loc!.end.offset;
+      const families = this.extractFontFaceFamilyTokens(value.slice(start, end), state);
+      if (families) {
+        tokens.push(...families.map(token => ({ ...token, start: start + token.start, end: start + token.end })));
+      } else {
+        tokens.push({ value: value.slice(start, end), property: 'font-family', category: 'font', start, end });
+      }
+    }
+    
+    // Compound values without colors, lengths or fonts are still extracted as a whole
+    return tokens.length > 0 ? tokens : null;
+  }
+
+  // Families declared by @font-face are extracted on their own, wherever they appear in a family list
+  private extractFontFaceFamilyTokens(value: string, state: ConversionState): ValueToken[] | null {
+    if (state.fontFaceFamilies.size === 0) return null;
+    
+    const tokens: ValueToken[] = [];
+    let start = 0;
+    let quote = '';
+    
+    for (let index = 0; index <= value.length; index++) {
+      const char = value.charAt(index);
+      if (quote) {
+        if (char === quote) quote = '';
+        continue;
+      }
+      if (char === '"' || char === "'") {
+        quote = char;
+        continue;
+      }
+      if (char !== ',' && index < value.length) continue;
+      
+      // Only the spelling used in @font-face is shared, other quoting or casing is left as written
+      const family = value.slice(start, index);
+      if (state.fontFaceFamilies.has(family.trim())) {
+        const familyStart = start + family.length - family.trimStart().length;
+        tokens.push({ value: family.trim(), property: 'font-family', category: 'font', start: familyStart, end: familyStart + family.trim().length });
+      }
+      start = index + 1;
+    }
+    
+    return tokens.length > 0 ? tokens : null;
+  }
+
+  private findFontStackStart(children: csstree.CssNode[]): number {
+    // font: [style] [weight] size[/line-height] family, family...
+    const sizeIndex = children.findIndex(node => node.type === 'Dimension' || node.type === 'Percentage');
+    if (sizeIndex === -1) return -1;
+    
+    const next = children[sizeIndex + 1];
+    const familyIndex = next && next.type === 'Operator' && next.value === '/' ? sizeIndex + 3 : sizeIndex + 1;
+    return familyIndex < children.length ? familyIndex : -1;
+  }
+
+  private categorizeValue(property: string, value: string): 'color' | 'size' | 'font' | 'other' {
+    // Color detection
+    if (this.isColorProperty(property) || this.isColorValue(value)) {
+      return 'color';
+    }
+    
+    // Size detection
+    if (this.isSizeProperty(property) || this.isSizeValue(value)) {
+      return 'size';
+    }
+    
+    // Font detection
+    if (this.isFontProperty(property)) {
+      return 'font';
+    }
+    
+    return 'other';
+  }
+
+  private isColorProperty(property: string): boolean {
+    const colorProperties = [
+      'color', 'background-color', 'border-color', 'outline-color',
+      'text-decoration-color', 'caret-color', 'column-rule-color',
+      'border-top-color', 'border-right-color', 'border-bottom-color', 'border-left-color'
+    ];
+    return colorProperties.includes(property);
+  }
+
+  private isColorValue(value: string): boolean {
+    // Hex colors
+    if (/^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/.test(value)) return true;
+    
+    // RGB/RGBA
+    if (/^rgba?\(/.test(value)) return true;
+    
+    // HSL/HSLA
+    if (/^hsla?\(/.test(value)) return true;
+    
+    // Named colors (common ones)
+    const namedColors = [
+      'red', 'blue', 'green', 'yellow', 'orange', 'purple', 'pink', 'brown',
+      'black', 'white', 'gray', 'grey', 'transparent', 'currentColor'
+    ];
+    return namedColors.includes(value.toLowerCase());
+  }
+
+  private isSizeProperty(property: string): boolean {
+    const sizeProperties = [
+      'width', 'height', 'min-width', 'min-height', 'max-width', 'max-height',
+      'padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+      'margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+      'border-width', 'border-radius', 'font-size', 'line-height', 'letter-spacing',
+      'top', 'right', 'bottom', 'left', 'gap', 'column-gap', 'row-gap'
+    ];
+    return sizeProperties.includes(property);
+  }
+
+  private isSizeValue(value: string): boolean {
+    // Check for size units
+    return /^\d+(\.\d+)?(px|em|rem|%|vh|vw|vmin|vmax|pt|pc|in|cm|mm|ex|ch)$/.test(value);
+  }
+
+  private isFontProperty(property: string): boolean {
+    const fontProperties = [
+      'font-family', 'font-weight', 'font-style', 'font-variant',
+      'font-stretch', 'font-size', 'line-height'
+    ];
+    return fontProperties.includes(property);
+  }
+
+  private shouldExtractCategory(category: 'color' | 'size' | 'font' | 'other'): boolean {
+    switch (category) {
+      case 'color': return this.options.extractColors;
+      case 'size': return this.options.extractSizes;
+      case 'font': return this.options.extractFonts;
+      case 'other': return this.options.extractOthers;
+      default: return false;
+    }
+  }
+
+  private generateVariableName(property: string, value: string, category: 'color' | 'size' | 'font' | 'other'): string {
+    const prefix = this.options.variablePrefix;
+    
+    // Clean value for naming
+    let cleanValue = value
+      .replace(/[^a-zA-Z0-9]/g, '-')
+      .replace(/-+/g, '-')
+      .replace(/^-|-$/g, '')
       .toLowerCase();
     
     // Generate name based on category and context
@@ -398,13 +1374,27 @@ export class VariableEnhancedCSSToSCSSConverter {
     return colorMap[hexColor.toLowerCase()] || null;
   }
 
-  private extractVariables(): void {
+  private extractVariables(state: ConversionState): void {
     // Group candidates by value to avoid duplicates
     const valueGroups = new Map<string, VariableCandidate[]>();
     
-    this.variableCandidates.forEach((candidate, key) => {
-      if (candidate.occurrences >= this.options.minOccurrences) {
-        const valueKey = `${candidate.category}:${candidate.value}`;
+    const sharedValues = new Set(this.options.sharedVariables.map(variable => this.getValueKey(variable.value, state)));
+    
+    // A value is counted across the properties it appears in, the candidates only decide its name
+    const totals = new Map<string, number>();
+    state.variableCandidates.forEach(candidate => {
+      const valueKey = `${candidate.category}:${candidate.valueKey}`;
+      totals.set(valueKey, (totals.get(valueKey) || 0) + candidate.occurrences);
+    });
+    
+    state.variableCandidates.forEach(candidate => {
+      // Values from the shared partial or the design tokens are already defined there
+      if (sharedValues.has(candidate.valueKey) || this.findDesignToken(candidate.value)) return;
+      
+      // Families declared by @font-face are named even when used once
+      const fontFace = candidate.property === 'font-family' && state.fontFaceFamilies.has(candidate.value);
+      const valueKey = `${candidate.category}:${candidate.valueKey}`;
+      if (totals.get(valueKey)! >= this.options.minOccurrences || fontFace) {
         if (!valueGroups.has(valueKey)) {
           valueGroups.set(valueKey, []);
         }
@@ -424,8 +1414,14 @@ export class VariableEnhancedCSSToSCSSConverter {
       let variableName = bestCandidate.suggestedName;
       let counter = 1;
       
-      // Ensure unique variable names
-      while (Array.from(this.extractedVariables.values()).some(v => v.name === variableName)) {
+      // Ensure unique variable names, including the shared ones
+      const takenNames = [
+        ...this.options.designTokens,
+        ...this.options.sharedVariables,
+        ...state.customPropertyVariables.values(),
+        ...state.extractedVariables.values()
+      ].map(v => v.name);
+      while (takenNames.includes(variableName)) {
         variableName = `${bestCandidate.suggestedName}-${counter}`;
         counter++;
       }
@@ -433,40 +1429,62 @@ export class VariableEnhancedCSSToSCSSConverter {
       // Use the key from the best candidate
       const bestKey = `${bestCandidate.property}:${bestCandidate.value}`;
       
-      this.extractedVariables.set(bestKey, {
+      state.extractedVariables.set(bestKey, {
         name: variableName,
         value: bestCandidate.value,
         category: bestCandidate.category,
         occurrences: totalOccurrences
       });
       
-      console.log(`🎨 Extracted variable: ${variableName} = ${bestCandidate.value} (${totalOccurrences} occurrences)`);
+      this.options.logger.info(`🎨 Extracted variable: ${variableName} = ${bestCandidate.value} (${totalOccurrences} occurrences)`);
     });
   }
 
-  private replaceValuesWithVariables(rules: ParsedRule[]): void {
+  private replaceValuesWithVariables(rules: ParsedRule[], state: ConversionState): void {
     // Create a map of value -> variable name for faster lookup
     const valueToVariable = new Map<string, string>();
     
-    this.extractedVariables.forEach(variable => {
-      valueToVariable.set(variable.value, variable.name);
+    [...this.options.sharedVariables, ...state.extractedVariables.values()].forEach(variable => {
+      valueToVariable.set(this.getValueKey(variable.value, state), variable.name);
     });
     
-    rules.forEach(rule => {
+    const colorBases = this.options.colorFunctions !== 'none'
+      ? this.collectColorBases([...this.options.sharedVariables, ...state.extractedVariables.values()])
+      : [];
+    
+    rules.flatMap(rule => [rule, ...(rule.children || [])]).forEach(rule => {
       rule.declarations.forEach(decl => {
         if (decl.type === 'declaration' && decl.property && decl.value) {
-          // Skip keyframes-block special property
-          if (decl.property === '@keyframes-block') return;
+          const tokens = this.extractValueTokens(decl.property, decl.value, state);
+          if (tokens) {
+            const replaced = this.replaceValueTokens(decl.value, tokens, valueToVariable, colorBases, state);
+            if (replaced !== decl.value) {
+              decl.originalValue = decl.value;
+              decl.value = replaced;
+            }
+            return;
+          }
+          
+          // Design tokens take precedence over shared and generated variables
+          const token = this.findDesignToken(decl.value);
           
           // Check if this value has a corresponding variable
-          const variableName = valueToVariable.get(decl.value);
+          const variableName = token ? token.name : valueToVariable.get(this.getValueKey(decl.value, state));
           
           if (variableName) {
             // Verify this property-value combination should use variables
             const category = this.categorizeValue(decl.property, decl.value);
             if (this.shouldExtractCategory(category)) {
               decl.originalValue = decl.value;
-              decl.value = variableName;
+              decl.value = this.toDeclarationExpression(decl.property, variableName);
+              if (token) state.usedTokens.set(token.name, token);
+            }
+          } else if (colorBases.length > 0 && this.isColorValue(decl.value) && this.shouldExtractCategory('color')) {
+            // Shades of an existing variable are written relative to it
+            const expression = this.deriveColorFunction(decl.value, colorBases, state);
+            if (expression) {
+              decl.originalValue = decl.value;
+              decl.value = this.toDeclarationExpression(decl.property, expression);
             }
           }
         }
@@ -474,32 +1492,264 @@ export class VariableEnhancedCSSToSCSSConverter {
     });
   }
 
-  private formatVariables(): string {
-    let result = '// Variables\n';
-    
-    // Group variables by category
-    const categories = new Map<string, ExtractedVariable[]>();
+  private toDeclarationExpression(property: string, expression: string): string {
+    // Custom property values are not SassScript, so expressions have to be interpolated
+    return property.startsWith('--') ? `#{${expression}}` : expression;
+  }
+
+  private replaceValueTokens(value: string, tokens: ValueToken[], valueToVariable: Map<string, string>, colorBases: ColorBase[], state: ConversionState): string {
+    let result = value;
     
-    this.extractedVariables.forEach(variable => {
-      if (!categories.has(variable.category)) {
-        categories.set(variable.category, []);
+    // Replace from the end so earlier offsets stay valid
+    [...tokens].sort((a, b) => b.start - a.start).forEach(token => {
+      if (!this.shouldExtractCategory(token.category)) return;
+      
+      const designToken = this.findDesignToken(token.value);
+      let replacement = designToken ? designToken.name : valueToVariable.get(this.getValueKey(token.value, state));
+      
+      if (!replacement && token.category === 'color' && colorBases.length > 0) {
+        replacement = this.deriveColorFunction(token.value, colorBases, state) || undefined;
+      }
+      
+      if (replacement) {
+        // Generated values drop optional whitespace, which a variable name would otherwise run into
+        const before = /[\w)"'%.]/.test(result.charAt(token.start - 1)) ? ' ' : '';
+        const after = /[\w("'#$.-]/.test(result.charAt(token.end)) ? ' ' : '';
+        result = result.slice(0, token.start) + before + replacement + after + result.slice(token.end);
+        if (designToken) state.usedTokens.set(designToken.name, designToken);
       }
-      categories.get(variable.category)!.push(variable);
     });
     
-    // Sort categories
-    const sortedCategories = ['color', 'size', 'font', 'other'];
+    return result;
+  }
+
+  private deriveColorVariables(state: ConversionState): void {
+    if (this.options.colorFunctions === 'none') return;
+    
+    // The most used colors become bases, less used shades are derived from them
+    const bases = this.collectColorBases(this.options.sharedVariables);
+    Array.from(state.extractedVariables.values())
+      .filter(variable => variable.category === 'color' && parseColor(variable.value))
+      .sort((a, b) => b.occurrences - a.occurrences)
+      .forEach(variable => {
+        const expression = this.deriveColorFunction(variable.value, bases, state);
+        if (expression) {
+          variable.expression = expression;
+        } else {
+          bases.push({ name: variable.name, color: parseColor(variable.value)! });
+        }
+      });
+  }
+
+  private collectColorBases(variables: ExtractedVariable[]): ColorBase[] {
+    const bases: ColorBase[] = [];
     
-    sortedCategories.forEach(categoryName => {
+    this.options.designTokens.forEach(token => {
+      const color = parseColor(token.value);
+      if (color) bases.push({ name: token.name, color, token });
+    });
+    
+    variables.forEach(variable => {
+      const color = variable.category === 'color' ? parseColor(variable.value) : null;
+      if (color) bases.push({ name: variable.name, color });
+    });
+    
+    return bases;
+  }
+
+  private deriveColorFunction(value: string, bases: ColorBase[], state: ConversionState): string | null {
+    const color = parseColor(value);
+    if (!color) return null;
+    
+    // Black and white can be reached from any base by clamping, which says nothing about the relation
+    const { l } = rgbToHSL(color);
+    if (l <= 0 || l >= 1) return null;
+    
+    let best: { base: ColorBase; lightness: number; alpha: number; distance: number } | undefined;
+    bases.forEach(base => {
+      const lightness = Math.round((l - rgbToHSL(base.color).l) * 1000) / 10;
+      const alpha = Math.round((color.a - base.color.a) * 1000) / 1000;
+      if (lightness === 0 && alpha === 0) return;
+      if (Math.abs(lightness) > MAX_LIGHTNESS_ADJUSTMENT) return;
+      
+      const distance = colorDistance(adjustColor(base.color, { lightness, alpha }), color);
+      if (distance > this.options.colorFunctionTolerance) return;
+      
+      if (!best || distance < best.distance || (distance === best.distance && Math.abs(lightness) < Math.abs(best.lightness))) {
+        best = { base, lightness, alpha, distance };
+      }
+    });
+    
+    if (!best) return null;
+    
+    const { base, lightness, alpha } = best;
+    if (base.token) state.usedTokens.set(base.token.name, base.token);
+    
+    const expression = this.formatColorFunction(base.name, lightness, alpha, color.a);
+    state.derivedColors.push({ value, expression });
+    this.options.logger.info(`🎨 Derived color ${value} as ${expression}`);
+    return expression;
+  }
+
+  private formatColorFunction(baseName: string, lightness: number, alpha: number, targetAlpha: number): string {
+    if (this.options.colorFunctions === 'module') {
+      const adjustments: string[] = [];
+      if (lightness !== 0) adjustments.push(`$lightness: ${lightness}%`);
+      if (alpha !== 0) adjustments.push(`$alpha: ${alpha}`);
+      return `color.adjust(${baseName}, ${adjustments.join(', ')})`;
+    }
+    
+    let expression = baseName;
+    if (lightness !== 0) {
+      expression = lightness > 0 ? `lighten(${expression}, ${lightness}%)` : `darken(${expression}, ${-lightness}%)`;
+    }
+    if (alpha !== 0) {
+      expression = `rgba(${expression}, ${Math.round(targetAlpha * 1000) / 1000})`;
+    }
+    return expression;
+  }
+
+  private applyCustomPropertyPolicy(rules: ParsedRule[], state: ConversionState): ParsedRule[] {
+    if (this.options.customProperties === 'preserve') return rules;
+    
+    // Only custom properties defined on a top-level :root have the same value everywhere
+    const definitions = new Map<string, { global: Declaration[]; scopes: string[] }>();
+    rules.forEach(rule => {
+      rule.declarations.forEach(decl => {
+        if (decl.type !== 'declaration' || !decl.property || !decl.property.startsWith('--')) return;
+        
+        const definition = definitions.get(decl.property) || { global: [], scopes: [] };
+        if (rule.selector === ':root' && rule.contexts.length === 0) {
+          definition.global.push(decl);
+        } else {
+          definition.scopes.push([...rule.contexts.map(context => `@${context.name} ${context.prelude}`), rule.selector].join(' '));
+        }
+        definitions.set(decl.property, definition);
+      });
+    });
+    
+    const takenNames = [...this.options.designTokens, ...this.options.sharedVariables].map(variable => variable.name);
+    definitions.forEach(({ global, scopes }, property) => {
+      if (global.length === 0) return;
+      
+      // Overrides in other scopes only work at runtime, so those properties stay custom properties
+      if (this.options.customProperties === 'convert' && scopes.length > 0) {
+        this.addWarning(state, 'custom-property-kept', `Kept ${property} as a custom property because it is overridden in ${scopes[0]}`, global[0].loc, ':root');
+        return;
+      }
+      
+      const baseName = `${this.options.variablePrefix}${property.slice(2)}`;
+      let name = baseName;
+      for (let counter = 1; takenNames.includes(name); counter++) {
+        name = `${baseName}-${counter}`;
+      }
+      takenNames.push(name);
+      
+      // The last definition wins, as in the cascade
+      const value = global[global.length - 1].value.trim();
+      state.customPropertyVariables.set(property, { name, value, category: this.categorizeValue(property, value), occurrences: 0 });
+    });
+    
+    if (state.customPropertyVariables.size === 0) return rules;
+    
+    if (this.options.customProperties === 'bridge') {
+      rules.forEach(rule => {
+        if (rule.selector !== ':root' || rule.contexts.length > 0) return;
+        rule.declarations.forEach(decl => {
+          const variable = decl.property ? state.customPropertyVariables.get(decl.property) : undefined;
+          if (variable && decl.value.trim() === variable.value) {
+            decl.value = `#{${variable.name}}`;
+          }
+        });
+      });
+      return rules;
+    }
+    
+    // Values of converted properties may refer to other converted properties
+    state.customPropertyVariables.forEach(variable => {
+      variable.value = this.replaceCustomPropertyReferences(variable.value, state, false);
+    });
+    
+    return rules.filter(rule => {
+      const isRoot = rule.selector === ':root' && rule.contexts.length === 0;
+      rule.declarations = rule.declarations.filter(decl => {
+        if (decl.type !== 'declaration' || !decl.property) return true;
+        if (isRoot && state.customPropertyVariables.has(decl.property)) return false;
+        
+        decl.value = this.replaceCustomPropertyReferences(decl.value, state, decl.property.startsWith('--'));
+        return true;
+      });
+      return !this.isEmptyRule(rule);
+    });
+  }
+
+  private replaceCustomPropertyReferences(value: string, state: ConversionState, interpolate: boolean): string {
+    const pattern = /var\(\s*(--[\w-]+)/g;
+    let result = '';
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    
+    while ((match = pattern.exec(value))) {
+      const variable = state.customPropertyVariables.get(match[1]);
+      // Unknown properties keep their var(), fallbacks included
+      if (!variable) continue;
+      
+      const close = this.findClosingParen(value, match.index + 'var('.length);
+      if (close === -1) break;
+      
+      // A converted property is always defined, so its fallback can never apply
+      variable.occurrences++;
+      result += value.slice(lastIndex, match.index) + (interpolate ? `#{${variable.name}}` : variable.name);
+      lastIndex = close + 1;
+      pattern.lastIndex = close + 1;
+    }
+    
+    return result + value.slice(lastIndex);
+  }
+
+  private findClosingParen(text: string, start: number): number {
+    let depth = 1;
+    for (let i = start; i < text.length; i++) {
+      if (text[i] === '(') depth++;
+      if (text[i] === ')' && --depth === 0) return i;
+    }
+    return -1;
+  }
+
+  private formatCustomPropertyVariables(state: ConversionState): string {
+    let result = '// Custom properties\n';
+    state.customPropertyVariables.forEach(variable => {
+      result += `${variable.name}: ${variable.value};\n`;
+    });
+    return result + '\n';
+  }
+
+  private formatVariables(state: ConversionState): string {
+    let result = '// Variables\n';
+    
+    // Group variables by category
+    const categories = new Map<string, ExtractedVariable[]>();
+    
+    state.extractedVariables.forEach(variable => {
+      if (!categories.has(variable.category)) {
+        categories.set(variable.category, []);
+      }
+      categories.get(variable.category)!.push(variable);
+    });
+    
+    // Sort categories
+    const sortedCategories = ['color', 'size', 'font', 'other'];
+    
+    sortedCategories.forEach(categoryName => {
       const variables = categories.get(categoryName);
       if (variables && variables.length > 0) {
         result += `\n// ${categoryName.charAt(0).toUpperCase() + categoryName.slice(1)} variables\n`;
         
-        // Sort variables within category
-        variables.sort((a, b) => a.name.localeCompare(b.name));
+        // Sort variables within category; derived ones follow the variables they are based on
+        variables.sort((a, b) => Number(!!a.expression) - Number(!!b.expression) || a.name.localeCompare(b.name));
         
         variables.forEach(variable => {
-          result += `${variable.name}: ${variable.value};\n`;
+          result += `${variable.name}: ${variable.expression || variable.value};\n`;
         });
       }
     });
@@ -508,157 +1758,437 @@ export class VariableEnhancedCSSToSCSSConverter {
   }
 
   // Include all the existing methods from UltimateCSSToSCSSConverter
-  private extractRules(ast: csstree.CssNode): ParsedRule[] {
+  private extractRules(ast: csstree.CssNode, state: ConversionState): ParsedRule[] {
     const rules: ParsedRule[] = [];
-    let currentMediaQuery = '';
     
-    csstree.walk(ast, (node: csstree.CssNode) => {
-      if (node.type === 'Atrule') {
-        const atrule = node as csstree.Atrule;
-        
-        // Handle media queries
-        if (atrule.name === 'media' && atrule.prelude) {
-          currentMediaQuery = csstree.generate(atrule.prelude);
-          return;
-        }
-        
-        // Handle keyframes (including webkit-keyframes) - skip walking into them to avoid orphaned rules
-        if ((atrule.name === 'keyframes' || atrule.name === '-webkit-keyframes') && atrule.prelude && atrule.block) {
-          const keyframeName = csstree.generate(atrule.prelude);
-          const keyframeRule = `@${atrule.name} ${keyframeName}`;
-          const declarations: Declaration[] = [];
-          
+    if (ast.type === 'StyleSheet') {
+      this.extractRulesFromList(ast.children, [], rules, state);
+    }
+    
+    return rules;
+  }
 
-          
-          // Add the entire keyframes block as a special declaration
-          declarations.push({
-            type: 'declaration',
-            property: '@keyframes-block',
-            value: csstree.generate(atrule.block),
-            important: false
-          });
-          
-          rules.push({
-            selector: keyframeRule,
-            declarations,
-            specificity: [0, 0, 0],
-            mediaQuery: currentMediaQuery || undefined,
-            hash: `keyframes-${atrule.name}-${keyframeName}`
-          });
-          
-          // Skip walking into keyframes children to prevent orphaned rules
-          return;
-        }
-        
-        // Handle other at-rules (font-face, etc.)
-        if (atrule.block) {
-          const atRuleName = `@${atrule.name}${atrule.prelude ? ' ' + csstree.generate(atrule.prelude) : ''}`;
-          const declarations: Declaration[] = [];
-          
-          atrule.block.children.forEach((child: csstree.CssNode) => {
-            if (child.type === 'Declaration') {
-              const declaration = child as csstree.Declaration;
-              declarations.push({
-                type: 'declaration',
-                property: declaration.property,
-                value: csstree.generate(declaration.value),
-                important: declaration.important === true
-              });
-            }
-          });
-          
-          rules.push({
-            selector: atRuleName,
-            declarations,
-            specificity: [0, 0, 0],
-            mediaQuery: currentMediaQuery || undefined,
-            hash: `atrule-${atrule.name}-${Date.now()}`
-          });
-        }
+  private extractRulesFromList(children: csstree.List<csstree.CssNode>, contexts: AtRuleContext[], rules: ParsedRule[], state: ConversionState): void {
+    children.forEach((node: csstree.CssNode) => {
+      if (node.type === 'Atrule') {
+        this.extractAtRule(node, contexts, rules, state);
         return;
       }
       
       if (node.type === 'Rule') {
-        const rule = node as csstree.Rule;
-        const selectorText = csstree.generate(rule.prelude);
-        const declarations: Declaration[] = [];
-        const seenProperties = new Set<string>(); // Track duplicate properties
-        
-        if (rule.block && rule.block.children) {
-          rule.block.children.forEach((child: csstree.CssNode) => {
-            if (child.type === 'Declaration') {
-              const declaration = child as csstree.Declaration;
-              const propertyKey = `${declaration.property}:${declaration.important ? '!important' : ''}`;
-              
-              // Skip duplicate properties (keep the last one)
-              if (seenProperties.has(propertyKey)) {
-                // Remove previous declaration with same property
-                const existingIndex = declarations.findIndex(d => 
-                  d.type === 'declaration' && 
-                  d.property === declaration.property && 
-                  d.important === (declaration.important === true)
-                );
-                if (existingIndex !== -1) {
-                  declarations.splice(existingIndex, 1);
-                }
-              }
-              
-              seenProperties.add(propertyKey);
-              declarations.push({
-                type: 'declaration',
-                property: declaration.property,
-                value: csstree.generate(declaration.value),
-                important: declaration.important === true
-              });
-            }
-          });
-        }
-        
-        // Handle multiple selectors
-        selectorText.split(',').forEach((selector: string) => {
-          const trimmedSelector = selector.trim();
-          const bemInfo = this.options.enableBEM ? this.parseAdvancedBEM(trimmedSelector) : undefined;
-          const hash = this.generateRuleHash(trimmedSelector, declarations);
-          
-          rules.push({
-            selector: trimmedSelector,
-            declarations: [...declarations],
-            specificity: this.calculateSpecificity(trimmedSelector),
-            bemInfo,
-            mediaQuery: currentMediaQuery || undefined,
-            hash
-          });
-        });
+        this.extractStyleRule(node, contexts, rules, state);
+        return;
       }
       
       if (node.type === 'Comment' && this.options.preserveComments) {
-        const commentNode = node as csstree.Comment;
         rules.push({
           selector: '/* COMMENT */',
-          declarations: [{ type: 'comment', value: commentNode.value }],
+          declarations: [{ type: 'comment', value: node.value, loc: this.toSourceLocation(node) }],
           specificity: [0, 0, 0],
-          mediaQuery: currentMediaQuery || undefined,
-          hash: `comment-${Date.now()}`
+          contexts,
+          hash: this.getAtRuleHash('comment', '/* COMMENT */', rules),
+          loc: this.toSourceLocation(node)
         });
+        return;
+      }
+      
+      if (node.type !== 'Comment') {
+        this.addWarning(state, 'unsupported-node', `Dropped unsupported ${node.type} node: ${this.truncate(csstree.generate(node))}`, this.toSourceLocation(node));
       }
     });
+  }
 
-    // Filter out orphaned keyframe rules (0%, 100%, from, to without parent @keyframes)
-    const filteredRules = rules.filter(rule => {
-      // Keep keyframes at-rules
-      if (rule.selector.startsWith('@keyframes') || rule.selector.startsWith('@-webkit-keyframes')) {
-        return true;
+  // Commas inside :is(), :not() or attribute values do not separate selectors
+  private splitSelectorList(selectorText: string): string[] {
+    const selectors: string[] = [];
+    let depth = 0;
+    let current = '';
+    
+    for (const char of selectorText) {
+      if (char === '(' || char === '[') depth++;
+      if (char === ')' || char === ']') depth--;
+      if (char === ',' && depth === 0) {
+        selectors.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    
+    selectors.push(current);
+    return selectors;
+  }
+
+  private truncate(text: string, length: number = 60): string {
+    return text.length > length ? `${text.slice(0, length)}...` : text;
+  }
+
+  private extractAtRule(atrule: csstree.Atrule, contexts: AtRuleContext[], rules: ParsedRule[], state: ConversionState): void {
+    const name = atrule.name.toLowerCase();
+    
+    if (STATEMENT_AT_RULES.includes(name) && !atrule.block && contexts.length === 0) {
+      this.extractStatement(atrule, rules, state);
+      return;
+    }
+    
+    // Conditional group rules (@media, @supports, @container, @layer...) wrap their children
+    if (CONDITIONAL_GROUP_AT_RULES.includes(name) && atrule.block) {
+      const context: AtRuleContext = {
+        name: atrule.name,
+        prelude: atrule.prelude ? csstree.generate(atrule.prelude) : '',
+        loc: this.toSourceLocation(atrule)
+      };
+      if (name === 'layer' && !context.prelude) context.anonymous = ++state.anonymousLayers;
+      this.extractRulesFromList(atrule.block.children, [...contexts, context], rules, state);
+      return;
+    }
+    
+    // Keyframe blocks become child rules
+    if (KEYFRAMES_AT_RULES.includes(name) && atrule.prelude && atrule.block) {
+      const keyframeName = csstree.generate(atrule.prelude);
+      const keyframeRule = `@${atrule.name} ${keyframeName}`;
+      const children: ParsedRule[] = [];
+      const ends: SourceLocation[] = [];
+      
+      atrule.block.children.forEach((child: csstree.CssNode) => {
+        if (child.type === 'Rule') {
+          const selector = csstree.generate(child.prelude).split(',').map(part => part.trim()).join(', ');
+          children.push({
+            selector,
+            declarations: this.extractDeclarations(child.block, `${keyframeRule} ${selector}`, state),
+            specificity: [0, 0, 0],
+            contexts,
+            loc: this.toSourceLocation(child)
+          });
+          if (child.loc) ends.push({ line: child.loc.end.line, column: child.loc.end.column - 1 });
+        } else if (child.type !== 'Comment') {
+          this.addWarning(state, 'unsupported-node', `Dropped ${child.type} node inside ${keyframeRule}`, this.toSourceLocation(child), keyframeRule);
+        }
+      });
+      
+      // A comment goes into the block it sits in or the next one, trailing comments into the last block
+      if (children.length > 0 && ends.length === children.length) {
+        this.takeComments(state, atrule.block).forEach(comment => {
+          const index = ends.findIndex(end => this.comparePositions(comment.loc!, end) < 0);
+          this.insertComments(children[index === -1 ? children.length - 1 : index].declarations, [comment]);
+        });
+      }
+      
+      rules.push({
+        selector: keyframeRule,
+        declarations: [],
+        specificity: [0, 0, 0],
+        contexts,
+        children,
+        hash: this.getAtRuleHash(`keyframes-${atrule.name}-${keyframeName}`, keyframeRule, rules),
+        loc: this.toSourceLocation(atrule)
+      });
+      return;
+    }
+    
+    // Descriptor at-rules (@font-face, @page, @property, @counter-style...); @page margin boxes become child rules
+    if (atrule.block) {
+      const atRuleName = `@${atrule.name}${atrule.prelude ? ' ' + csstree.generate(atrule.prelude) : ''}`;
+      const children: ParsedRule[] = [];
+      
+      atrule.block.children.forEach((child: csstree.CssNode) => {
+        if (child.type === 'Atrule' && child.block) {
+          const selector = `@${child.name}`;
+          const declarations = this.extractDeclarations(child.block, `${atRuleName} ${selector}`, state);
+          this.insertComments(declarations, this.takeComments(state, child));
+          children.push({ selector, declarations, specificity: [0, 0, 0], contexts, loc: this.toSourceLocation(child) });
+        } else if (child.type !== 'Declaration' && child.type !== 'Comment') {
+          this.addWarning(state, 'unsupported-node', `Dropped ${child.type} node inside ${atRuleName}`, this.toSourceLocation(child), atRuleName);
+        }
+      });
+      
+      const declarations = this.extractDeclarations(atrule.block, atRuleName, state);
+      this.insertComments(declarations, this.takeComments(state, atrule.block));
+      
+      if (name === 'font-face') {
+        declarations.forEach(decl => {
+          if (decl.property === 'font-family') state.fontFaceFamilies.add(decl.value.trim());
+        });
+      }
+      
+      rules.push({
+        selector: atRuleName,
+        declarations,
+        specificity: [0, 0, 0],
+        contexts,
+        children: children.length > 0 ? children : undefined,
+        hash: this.getAtRuleHash(`atrule-${atRuleName}`, atRuleName, rules),
+        loc: this.toSourceLocation(atrule)
+      });
+      return;
+    }
+    
+    this.addWarning(state, 'unsupported-at-rule', `Dropped @${atrule.name} statement`, this.toSourceLocation(atrule));
+  }
+
+  private extractStatement(atrule: csstree.Atrule, rules: ParsedRule[], state: ConversionState): void {
+    const name = atrule.name.toLowerCase();
+    const loc = this.toSourceLocation(atrule);
+    let prelude = !atrule.prelude ? '' : atrule.prelude.type === 'Raw'
+      ? atrule.prelude.value.trim()
+      : atrule.prelude.children.toArray().map(node => csstree.generate(node)).join(' ');
+    if (name === 'layer') prelude = prelude.split(/\s*,\s*/).join(', ');
+    
+    // Browsers ignore these after style rules, and a late @layer statement may reorder layers; in the output they lead again
+    if (rules.some(rule => rule.selector !== '/* COMMENT */')) {
+      this.addWarning(state, 'statement-moved', `@${name} ${prelude} came after other rules and now leads the output`, loc);
+    }
+    
+    if (name === 'charset' && state.statements.some(statement => statement.name === 'charset')) return;
+    
+    // @namespace must precede all CSS, including what a @use of a converted stylesheet emits
+    if (name === 'namespace') {
+      state.statements.filter(statement => statement.module !== undefined).forEach(statement => {
+        statement.module = undefined;
+        this.addWarning(state, 'import-kept', `Kept @import ${statement.prelude}: @use would emit CSS ahead of @namespace ${prelude}`, statement.loc);
+      });
+    }
+    
+    const url = name === 'import' ? prelude.match(/^(?:url\(\s*(["']?)([^"')]*)\1\s*\)|(["'])(.*?)\3)\s*(.*)$/i) : null;
+    if (url) {
+      const path = url[2] ?? url[4];
+      const conditions = url[5];
+      const isLocalCSS = /\.css$/i.test(path) && !/^([a-z][a-z0-9+.-]*:|\/)/i.test(path);
+      
+      // Media, supports() or layer() conditions cannot be expressed with @use
+      if (this.options.cssImports === 'use' && isLocalCSS && !conditions) {
+        // @use comes before every other statement, so converting an import after one would change their order
+        const blocker = state.statements.find(statement => statement.name !== 'charset' && statement.module === undefined);
+        if (!blocker) {
+          state.statements.push({ name, prelude, module: path.replace(/\.css$/i, ''), loc });
+          return;
+        }
+        this.addWarning(state, 'import-kept', `Kept @import ${prelude}: @use would move it ahead of @${blocker.name} ${blocker.prelude}`, loc);
+      }
+      
+      // Sass would load a quoted path without .css as one of its own stylesheets
+      if (url[4] !== undefined && !/\.css$/i.test(path) && !/^(https?:)?\/\//i.test(path)) {
+        prelude = `url("${path}")${conditions ? ' ' + conditions : ''}`;
       }
+    }
+    
+    state.statements.push({ name, prelude, loc });
+  }
+
+  private extractStyleRule(rule: csstree.Rule, contexts: AtRuleContext[], rules: ParsedRule[], state: ConversionState): void {
+    const selectorText = csstree.generate(rule.prelude);
+    const declarations = this.extractDeclarations(rule.block, selectorText, state);
+    
+    // Handle multiple selectors
+    this.splitSelectorList(selectorText).forEach((selector: string) => {
+      const trimmedSelector = selector.trim();
+      const bemInfo = this.options.enableBEM ? this.parseAdvancedBEM(trimmedSelector) : undefined;
+      const hash = this.generateRuleHash(trimmedSelector, declarations);
+      
+      rules.push({
+        selector: trimmedSelector,
+        declarations: [...declarations],
+        specificity: calculateSpecificity(trimmedSelector),
+        bemInfo,
+        contexts,
+        hash,
+        loc: this.toSourceLocation(rule)
+      });
+    });
+  }
+
+  private extractDeclarations(block: csstree.Block, selectorText: string, state: ConversionState): Declaration[] {
+    const declarations: Declaration[] = [];
+    const seenProperties = new Set<string>(); // Track duplicate properties
+    
+    if (block && block.children) {
+      block.children.forEach((child: csstree.CssNode) => {
+        if (child.type === 'Declaration') {
+          const declaration = child as csstree.Declaration;
+          const propertyKey = `${declaration.property}:${declaration.important ? '!important' : ''}`;
+          
+          // Skip duplicate properties (keep the last one)
+          if (seenProperties.has(propertyKey)) {
+            // Remove previous declaration with same property
+            const existingIndex = declarations.findIndex(d =>
+              d.type === 'declaration' &&
+              d.property === declaration.property &&
+              d.important === (declaration.important === true)
+            );
+            if (existingIndex !== -1) {
+              const [dropped] = declarations.splice(existingIndex, 1);
+              this.addWarning(
+                state,
+                'dropped-declaration',
+                `Dropped '${dropped.property}: ${dropped.value}' overridden later in the same rule`,
+                dropped.loc,
+                selectorText
+              );
+            }
+          }
+          
+          seenProperties.add(propertyKey);
+          const value = csstree.generate(declaration.value);
+          declarations.push({
+            type: 'declaration',
+            property: declaration.property,
+            // Custom property values keep their raw text, including the space after the colon
+            value: declaration.property.startsWith('--') ? value.trim() : value,
+            important: declaration.important === true,
+            loc: this.toSourceLocation(declaration)
+          });
+        } else if (child.type !== 'Comment') {
+          this.addWarning(state, 'unsupported-node', `Dropped ${child.type} node inside ${selectorText}`, this.toSourceLocation(child), selectorText);
+        }
+      });
+    }
+    
+    return declarations;
+  }
+
+  // css-tree leaves most comments out of the AST, so they are collected while parsing and claimed by position
+  private takeComments(state: ConversionState, node: csstree.CssNode): Declaration[] {
+    if (!this.options.preserveComments || !node.loc) return [];
+    
+    const start = node.loc.start.offset;
+    const end = node.loc.end.offset;
+    const taken = state.sourceComments.filter(comment => comment.offset > start && comment.offset < end);
+    state.sourceComments = state.sourceComments.filter(comment => !taken.includes(comment));
+    
+    return taken.map(comment => ({ type: 'comment', value: comment.value.trim(), loc: comment.loc }));
+  }
+
+  // Keeps the source order of the declarations they are added to
+  private insertComments(declarations: Declaration[], comments: Declaration[]): void {
+    comments.forEach(comment => {
+      const after = declarations.findIndex(decl => !!decl.loc && this.comparePositions(decl.loc, comment.loc!) > 0);
+      declarations.splice(after === -1 ? declarations.length : after, 0, comment);
+    });
+  }
+
+  // Repeated at-rules such as several @font-face blocks, and comments, each keep their own identity
+  private getAtRuleHash(base: string, selector: string, rules: ParsedRule[]): string {
+    const occurrence = rules.filter(rule => rule.selector === selector).length;
+    return occurrence === 0 ? base : `${base}-${occurrence + 1}`;
+  }
+
+  private comparePositions(first: SourceLocation, second: SourceLocation): number {
+    return first.line - second.line || first.column - second.column;
+  }
+
+  private getContextKey(contexts: AtRuleContext[]): string {
+    // Anonymous layers share a header but never group, merge or nest together
+    return contexts.map(context => this.formatAtRuleHeader(context) + (context.anonymous ? ` #${context.anonymous}` : '')).join(' ');
+  }
+
+  // The cascade layer a rule belongs to; source order only decides between rules of the same layer
+  private getLayerKey(contexts: AtRuleContext[]): string {
+    return this.getContextKey(contexts.filter(context => context.name.toLowerCase() === 'layer'));
+  }
+
+  private formatAtRuleHeader(context: AtRuleContext): string {
+    if (context.include) return `@include ${context.include}`;
+    return context.prelude ? `@${context.name} ${context.prelude}` : `@${context.name}`;
+  }
+
+  private applyBreakpoints(rules: ParsedRule[], state: ConversionState): void {
+    const bootstrap = this.options.breakpoints === 'bootstrap';
+    const contexts = new Set<AtRuleContext>();
+    rules.forEach(rule => rule.contexts.forEach(context => {
+      if (context.name.toLowerCase() === 'media') contexts.add(context);
+    }));
+    
+    const candidates: { context: AtRuleContext; feature: 'min-width' | 'max-width'; mediaType: string; width: string }[] = [];
+    contexts.forEach(context => {
+      const match = context.prelude.trim().match(WIDTH_QUERY_PATTERN);
+      if (!match) {
+        this.addWarning(state, 'unmapped-media-query', `Kept @media ${context.prelude}: only single min-width or max-width queries map to breakpoints`, context.loc);
+        return;
+      }
+      
+      const feature = `${match[2].toLowerCase()}-width` as 'min-width' | 'max-width';
+      let width = `${parseFloat(match[3])}${match[4].toLowerCase()}`;
       
-      // Filter out orphaned keyframe selectors
-      if (rule.selector.match(/^(0%|100%|\d+%|from|to)$/)) {
-        return false;
+      // Bootstrap's media-breakpoint-down() stops .02px below the breakpoint
+      if (bootstrap && feature === 'max-width') {
+        const breakpoint = Math.round((parseFloat(match[3]) + 0.02) * 100) / 100;
+        if (match[4].toLowerCase() !== 'px' || !Number.isInteger(breakpoint)) {
+          this.addWarning(state, 'unmapped-media-query', `Kept @media ${context.prelude}: media-breakpoint-down() needs a max-width .02px below a breakpoint`, context.loc);
+          return;
+        }
+        width = `${breakpoint}px`;
       }
       
-      return true;
+      candidates.push({ context, feature, mediaType: (match[1] || '').toLowerCase().replace(/\s+/g, ' '), width });
     });
+    
+    // Each mixin writes one media type, so queries with a less common type keep their @media
+    const mediaTypes = new Map<string, string>();
+    (['min-width', 'max-width'] as const).forEach(feature => {
+      const counts = new Map<string, number>();
+      candidates.filter(candidate => candidate.feature === feature).forEach(candidate => {
+        counts.set(candidate.mediaType, (counts.get(candidate.mediaType) || 0) + 1);
+      });
+      const [mostCommon] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+      if (mostCommon) mediaTypes.set(feature, mostCommon[0]);
+    });
+    
+    const mapped = candidates.filter(candidate => {
+      if (candidate.mediaType === mediaTypes.get(candidate.feature)) return true;
+      this.addWarning(state, 'unmapped-media-query', `Kept @media ${candidate.context.prelude}: other ${candidate.feature} queries use a different media type`, candidate.context.loc);
+      return false;
+    });
+    if (mapped.length === 0) return;
+    
+    const toPixels = (width: string) => parseFloat(width) * (width.endsWith('px') ? 1 : 16);
+    const widths = Array.from(new Set(mapped.map(candidate => candidate.width))).sort((a, b) => toPixels(a) - toPixels(b));
+    // Any other width is named after its value: by position, 767.98px would become md and 768px lg
+    const names = new Map(widths.map(width => [width, BOOTSTRAP_BREAKPOINTS[width] || `bp-${width.replace('.', '-')}`]));
+    widths.forEach(width => state.breakpoints.set(names.get(width)!, width));
+    
+    (['min-width', 'max-width'] as const).forEach(feature => {
+      if (!mapped.some(candidate => candidate.feature === feature)) return;
+      const name = feature === 'min-width'
+        ? (bootstrap ? 'media-breakpoint-up' : 'respond-to')
+        : (bootstrap ? 'media-breakpoint-down' : 'respond-below');
+      state.breakpointMixins.push({ name, feature, mediaType: mediaTypes.get(feature)! });
+    });
+    
+    mapped.forEach(candidate => {
+      const mixin = state.breakpointMixins.find(breakpointMixin => breakpointMixin.feature === candidate.feature)!;
+      candidate.context.include = `${mixin.name}(${names.get(candidate.width)})`;
+    });
+    
+    this.options.logger.info(`📐 Mapped ${mapped.length} media queries to ${state.breakpoints.size} breakpoints`);
+  }
 
-    return filteredRules;
+  private formatBreakpointMap(state: ConversionState): string {
+    const entries = Array.from(state.breakpoints.entries()).map(([name, width]) => `${this.getIndent(1)}${name}: ${width}`);
+    
+    // Bootstrap's map starts at xs: 0
+    if (this.options.breakpoints === 'bootstrap') entries.unshift(`${this.getIndent(1)}xs: 0`);
+    
+    return `// Breakpoints\n${this.getBreakpointMapName()}: (\n${entries.join(',\n')}\n);\n\n`;
+  }
+
+  private getBreakpointMapName(): string {
+    return this.options.breakpoints === 'bootstrap' ? '$grid-breakpoints' : '$breakpoints';
+  }
+
+  private formatBreakpointMixins(state: ConversionState): string {
+    const bootstrap = this.options.breakpoints === 'bootstrap';
+    const mapName = this.getBreakpointMapName();
+    
+    let result = '';
+    state.breakpointMixins.forEach(mixin => {
+      const mediaType = mixin.mediaType ? `${mixin.mediaType} and ` : '';
+      const offset = bootstrap && mixin.feature === 'max-width' ? ' - .02px' : '';
+      result += `@mixin ${mixin.name}($name) {\n`;
+      result += `${this.getIndent(1)}@media ${mediaType}(${mixin.feature}: map-get(${mapName}, $name)${offset}) {\n`;
+      result += `${this.getIndent(2)}@content;\n`;
+      result += `${this.getIndent(1)}}\n}\n\n`;
+    });
+    return result;
   }
 
   // Copy all other methods from UltimateCSSToSCSSConverter
@@ -684,132 +2214,650 @@ export class VariableEnhancedCSSToSCSSConverter {
     }
   }
 
-  private generateRuleHash(selector: string, declarations: Declaration[]): string {
-    const declString = declarations
+  private generateRuleHash(selector: string, declarations: Declaration[]): string {
+    const declString = declarations
+      .filter(d => d.type === 'declaration')
+      .map(d => `${d.property}:${d.value}${d.important ? '!important' : ''}`)
+      .sort()
+      .join(';');
+    
+    return `${selector}|${declString}`;
+  }
+
+  private detectAndMergeDuplicates(rules: ParsedRule[], state: ConversionState): ParsedRule[] {
+    if (this.options.duplicateMergeMode === 'cascade-safe') {
+      return this.mergeCascadeSafeDuplicates(rules, state);
+    }
+    
+    if (this.options.duplicateMergeMode === 'extend') {
+      return this.extractPlaceholders(rules, state);
+    }
+    
+    // Copy implementation from UltimateCSSToSCSSConverter
+    const mediaQueryGroups = new Map<string, Map<string, ParsedRule[]>>();
+    
+    rules.forEach((rule, index) => {
+      const mediaKey = this.getContextKey(rule.contexts);
+      
+      if (!mediaQueryGroups.has(mediaKey)) {
+        mediaQueryGroups.set(mediaKey, new Map());
+      }
+      
+      const mediaGroup = mediaQueryGroups.get(mediaKey)!;
+      // At-rules such as @keyframes never share a selector list
+      const declHash = rule.selector.startsWith('@')
+        ? `${rule.selector}#${index}`
+        : this.generateDeclarationHash(rule.declarations);
+      
+      if (!mediaGroup.has(declHash)) {
+        mediaGroup.set(declHash, []);
+      }
+      
+      mediaGroup.get(declHash)!.push(rule);
+    });
+    
+    const mergedRules: ParsedRule[] = [];
+    
+    mediaQueryGroups.forEach(mediaGroup => {
+      mediaGroup.forEach((duplicateRules, declHash) => {
+        if (duplicateRules.length > 1 && duplicateRules[0].selector !== '/* COMMENT */') {
+          const firstDeclarations = duplicateRules[0].declarations;
+          const allIdentical = duplicateRules.every(rule => 
+            this.declarationsEqual(rule.declarations, firstDeclarations)
+          );
+          
+          if (allIdentical) {
+            const mergedSelectors = duplicateRules.map(r => r.selector).join(', ');
+            const firstRule = duplicateRules[0];
+            
+            // A selector list is no single BEM block, so it is nested as a plain rule and keeps every selector
+            mergedRules.push({
+              ...firstRule,
+              selector: mergedSelectors,
+              hash: `merged-${declHash}`,
+              bemInfo: undefined
+            });
+            state.mergedGroups.push({
+              selectors: duplicateRules.map(r => r.selector),
+              context: this.getContextKey(firstRule.contexts)
+            });
+            
+            this.options.logger.info(`🔄 Merged ${duplicateRules.length} duplicate rules: ${mergedSelectors}`);
+          } else {
+            duplicateRules.forEach(rule => {
+              mergedRules.push(rule);
+            });
+          }
+        } else {
+          duplicateRules.forEach(rule => {
+            mergedRules.push(rule);
+          });
+        }
+      });
+    });
+    
+    return mergedRules;
+  }
+
+  private mergeCascadeSafeDuplicates(rules: ParsedRule[], state: ConversionState): ParsedRule[] {
+    const mergedRules: ParsedRule[] = [];
+    const candidates = new Map<string, ParsedRule[]>();
+    const groups = new Map<ParsedRule, MergedRuleGroup>();
+    
+    rules.forEach(rule => {
+      const declHash = this.generateDeclarationHash(rule.declarations);
+      
+      if (rule.selector === '/* COMMENT */' || rule.selector.startsWith('@') || !declHash) {
+        mergedRules.push(rule);
+        return;
+      }
+      
+      const key = `${this.getContextKey(rule.contexts)}|${declHash}`;
+      const previousRules = candidates.get(key) || [];
+      let blocker: { target: ParsedRule; rule: ParsedRule; property: string } | undefined;
+      
+      // Merging moves this rule up to the earlier one, so nothing in between may override it
+      const target = previousRules.find(previous => {
+        const conflict = this.findCascadeConflict(mergedRules, mergedRules.indexOf(previous) + 1, rule);
+        if (conflict && !blocker) {
+          blocker = { target: previous, ...conflict };
+        }
+        return !conflict;
+      });
+      
+      if (target) {
+        if (!groups.has(target)) {
+          groups.set(target, { selectors: [target.selector], context: this.getContextKey(target.contexts) });
+        }
+        groups.get(target)!.selectors.push(rule.selector);
+        target.selector = `${target.selector}, ${rule.selector}`;
+        target.hash = `merged-${declHash}`;
+        target.bemInfo = undefined;
+        this.options.logger.info(`🔄 Merged duplicate rule: ${rule.selector} into ${target.selector}`);
+        return;
+      }
+      
+      if (blocker) {
+        const message = `Skipped merging ${rule.selector} into ${blocker.target.selector}: ${blocker.rule.selector} overrides '${blocker.property}' in between`;
+        this.addWarning(state, 'merge-skipped', message, rule.loc, rule.selector);
+      }
+      
+      const copy = { ...rule };
+      mergedRules.push(copy);
+      candidates.set(key, [...previousRules, copy]);
+    });
+    
+    state.mergedGroups.push(...groups.values());
+    return mergedRules;
+  }
+
+  private extractPlaceholders(rules: ParsedRule[], state: ConversionState): ParsedRule[] {
+    const groups = new Map<string, ParsedRule[]>();
+    
+    rules.forEach(rule => {
+      const declHash = this.generateDeclarationHash(rule.declarations);
+      if (rule.selector === '/* COMMENT */' || rule.selector.startsWith('@') || !declHash) return;
+      
+      // Placeholders are written ahead of every rule, where their @layer would be declared before the earlier layers
+      if (rule.contexts.some(context => context.name.toLowerCase() === 'layer')) return;
+      
+      const key = `${this.getContextKey(rule.contexts)}|${declHash}`;
+      groups.set(key, [...(groups.get(key) || []), rule]);
+    });
+    
+    groups.forEach(group => {
+      if (group.length < 2) return;
+      
+      // Placeholders are written before all rules, so no earlier rule may override the moved declarations
+      const users = group.filter(rule => {
+        const earlierRules = rules.slice(0, rules.indexOf(rule)).filter(earlier => !group.includes(earlier));
+        const conflict = this.findCascadeConflict(earlierRules, 0, rule);
+        if (conflict) {
+          const message = `Skipped extending a placeholder from ${rule.selector}: ${conflict.rule.selector} sets '${conflict.property}' earlier`;
+          this.addWarning(state, 'merge-skipped', message, rule.loc, rule.selector);
+        }
+        return !conflict;
+      });
+      
+      if (users.length < 2) return;
+      
+      const name = this.generatePlaceholderName(users[0].selector, state);
+      state.placeholders.set(name, {
+        name,
+        contexts: users[0].contexts,
+        declarations: users[0].declarations.map(decl => ({ ...decl, loc: undefined }))
+      });
+      
+      users.forEach(rule => {
+        const loc = rule.declarations.find(decl => decl.loc)?.loc;
+        rule.declarations = [{ type: 'extend', value: name, loc }];
+      });
+      
+      state.mergedGroups.push({
+        selectors: users.map(rule => rule.selector),
+        context: this.getContextKey(users[0].contexts)
+      });
+      this.options.logger.info(`🔄 Extracted ${name} for ${users.length} duplicate rules: ${users.map(rule => rule.selector).join(', ')}`);
+    });
+    
+    return rules;
+  }
+
+  private generatePlaceholderName(selector: string, state: ConversionState): string {
+    const baseName = `%${selector.replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '') || 'shared'}`;
+    let name = baseName;
+    for (let counter = 1; state.placeholders.has(name); counter++) {
+      name = `${baseName}-${counter}`;
+    }
+    return name;
+  }
+
+  private findCascadeConflict(mergedRules: ParsedRule[], start: number, rule: ParsedRule): { rule: ParsedRule; property: string } | undefined {
+    // Rules under another media, supports or container condition may apply to the same element; only a different layer cannot compete
+    const ruleLayer = this.getLayerKey(rule.contexts);
+    const properties = rule.declarations
+      .filter(d => d.type === 'declaration' && d.property)
+      .map(d => d.property!);
+    
+    for (let i = start; i < mergedRules.length; i++) {
+      const between = mergedRules[i];
+      if (between.selector === '/* COMMENT */' || between.selector.startsWith('@') || this.getLayerKey(between.contexts) !== ruleLayer) continue;
+      
+      const betweenSpecificity = this.splitSelectorList(between.selector)
+        .map(selector => calculateSpecificity(selector.trim()))
+        .reduce((max, specificity) => compareSpecificity(specificity, max) > 0 ? specificity : max);
+      
+      if (compareSpecificity(betweenSpecificity, rule.specificity) < 0) continue;
+      
+      const overlapping = between.declarations.find(d =>
+        d.type === 'declaration' && d.property && properties.some(property => this.propertiesOverlap(property, d.property!))
+      );
+      
+      if (overlapping) {
+        return { rule: between, property: overlapping.property! };
+      }
+    }
+    
+    return undefined;
+  }
+
+  private propertiesOverlap(a: string, b: string): boolean {
+    // Shorthands overlap with their longhands, e.g. margin and margin-top
+    return a === b || a.startsWith(`${b}-`) || b.startsWith(`${a}-`);
+  }
+
+  private generateDeclarationHash(declarations: Declaration[]): string {
+    return declarations
       .filter(d => d.type === 'declaration')
       .map(d => `${d.property}:${d.value}${d.important ? '!important' : ''}`)
       .sort()
       .join(';');
-    
-    return `${selector}|${declString}`;
   }
 
-  private detectAndMergeDuplicates(rules: ParsedRule[]): ParsedRule[] {
-    // Copy implementation from UltimateCSSToSCSSConverter
-    const mediaQueryGroups = new Map<string, Map<string, ParsedRule[]>>();
+  private declarationsEqual(decls1: Declaration[], decls2: Declaration[]): boolean {
+    if (decls1.length !== decls2.length) return false;
     
-    rules.forEach(rule => {
-      const mediaKey = rule.mediaQuery || 'default';
+    const hash1 = this.generateDeclarationHash(decls1);
+    const hash2 = this.generateDeclarationHash(decls2);
+    
+    return hash1 === hash2;
+  }
+
+  private extractMixins(rules: ParsedRule[], state: ConversionState): void {
+    const declarationKey = (decl: Declaration) => `${decl.property}:${decl.value}${decl.important ? '!important' : ''}`;
+    const styleRules = rules.filter(rule => !rule.selector.startsWith('@') && rule.selector !== '/* COMMENT */');
+    
+    // Greedily take the shared subset that saves the most lines until none is worth a mixin
+    for (;;) {
+      const keySets = styleRules.map(rule => new Set(
+        rule.declarations.filter(decl => decl.type === 'declaration' && decl.property).map(declarationKey)
+      ));
       
-      if (!mediaQueryGroups.has(mediaKey)) {
-        mediaQueryGroups.set(mediaKey, new Map());
+      // Every subset shared by several rules is also shared by some pair of them
+      const subsets = new Map<string, string[]>();
+      for (let i = 0; i < keySets.length; i++) {
+        for (let j = i + 1; j < keySets.length; j++) {
+          const shared = Array.from(keySets[i]).filter(key => keySets[j].has(key));
+          if (shared.length >= this.options.mixinMinDeclarations) {
+            subsets.set(shared.sort().join('\n'), shared);
+          }
+        }
       }
       
-      const mediaGroup = mediaQueryGroups.get(mediaKey)!;
-      const declHash = this.generateDeclarationHash(rule.declarations);
+      let best: { keys: string[]; users: ParsedRule[]; saving: number } | undefined;
+      subsets.forEach(keys => {
+        const users = styleRules.filter((rule, index) =>
+          keys.every(key => keySets[index].has(key)) && this.canIncludeSubset(rule, keys, declarationKey)
+        );
+        if (users.length < this.options.mixinMinOccurrences) return;
+        
+        // Each user trades the subset for one @include; the mixin itself costs the subset once
+        const saving = (keys.length - 1) * users.length - keys.length;
+        if (!best || saving > best.saving) {
+          best = { keys, users, saving };
+        }
+      });
       
-      if (!mediaGroup.has(declHash)) {
-        mediaGroup.set(declHash, []);
+      if (!best || best.saving <= 0) return;
+      
+      const { keys, users } = best;
+      const declarations = users[0].declarations.filter(decl => decl.type === 'declaration' && keys.includes(declarationKey(decl)));
+      const name = this.generateMixinName(declarations, state);
+      state.mixins.set(name, {
+        name,
+        parameters: [],
+        declarations: declarations.map(decl => ({ ...decl, loc: undefined })),
+        occurrences: users.length
+      });
+      
+      users.forEach(rule => {
+        const first = rule.declarations.findIndex(decl => decl.type === 'declaration' && keys.includes(declarationKey(decl)));
+        const include: Declaration = { type: 'include', value: name, loc: rule.declarations[first].loc };
+        rule.declarations = rule.declarations
+          .map((decl, index) => index === first ? include : decl)
+          .filter(decl => decl.type !== 'declaration' || !keys.includes(declarationKey(decl)));
+      });
+      
+      this.options.logger.info(`🧩 Extracted @mixin ${name} (${keys.length} declarations, ${users.length} rules)`);
+    }
+  }
+
+  // Keyframes and @page keep their content in children, so only a style rule without declarations is empty
+  private isEmptyRule(rule: ParsedRule): boolean {
+    return rule.declarations.length === 0 && !rule.children?.length && !rule.selector.startsWith('@');
+  }
+
+  private removeOutdatedPrefixes(rules: ParsedRule[], cssContent: string): ParsedRule[] {
+    const outdated = findOutdatedPrefixes(cssContent, this.options.browsers || undefined);
+    if (outdated.size === 0) return rules;
+    
+    const removed = rules.reduce((count, rule) => {
+      if (rule.selector.startsWith('@')) return count;
+      const kept = rule.declarations.filter(decl => !(decl.type === 'declaration' && decl.loc && outdated.has(`${decl.loc.line}:${decl.loc.column}`)));
+      const difference = rule.declarations.length - kept.length;
+      rule.declarations = kept;
+      return count + difference;
+    }, 0);
+    
+    this.options.logger.info(`✂️ Removed ${removed} vendor-prefixed declarations the target browsers no longer need`);
+    return rules.filter(rule => !this.isEmptyRule(rule));
+  }
+
+  private collapseVendorPrefixes(rules: ParsedRule[], state: ConversionState): void {
+    const defaultPrefixes = VENDOR_PREFIXES.slice(0, 3).join(' ');
+    let collapsed = 0;
+    
+    rules.forEach(rule => {
+      if (rule.selector.startsWith('@') || rule.selector === '/* COMMENT */') return;
+      
+      const declarations: Declaration[] = [];
+      let index = 0;
+      while (index < rule.declarations.length) {
+        // A group is a run of prefixed declarations followed by the standard one, all with the same value
+        const prefixes: string[] = [];
+        let end = index;
+        let split: { prefix: string; property: string } | null;
+        while (end < rule.declarations.length && rule.declarations[end].type === 'declaration' &&
+          (split = splitVendorPrefix(rule.declarations[end].property || '')) && !prefixes.includes(split.prefix)) {
+          prefixes.push(split.prefix);
+          end++;
+        }
+        
+        const standard = rule.declarations[end];
+        const group = rule.declarations.slice(index, end + 1);
+        const property = standard?.property;
+        const isGroup = prefixes.length > 0 && standard?.type === 'declaration' && property && isPrefixedProperty(property) &&
+          group.every(decl => decl.value === standard.value && !decl.important &&
+            (decl === standard || splitVendorPrefix(decl.property!)!.property === property)) &&
+          !this.hasTopLevelComma(standard.value);
+        
+        if (!isGroup) {
+          declarations.push(rule.declarations[index]);
+          index++;
+          continue;
+        }
+        
+        const prefixList = prefixes.join(' ');
+        const args = [property, standard.value, ...(prefixList === defaultPrefixes ? [] : [prefixList])];
+        declarations.push({ type: 'include', value: `prefix(${args.join(', ')})`, loc: group[0].loc });
+        collapsed++;
+        index = end + 1;
       }
       
-      mediaGroup.get(declHash)!.push(rule);
+      rule.declarations = declarations;
     });
     
-    const mergedRules: ParsedRule[] = [];
+    if (collapsed > 0) {
+      state.usesPrefixMixin = true;
+      this.options.logger.info(`🧩 Collapsed ${collapsed} vendor-prefixed groups into @include prefix()`);
+    }
+  }
+
+  private extractVariantMixins(rules: ParsedRule[], state: ConversionState): void {
+    const groups = new Map<string, ParsedRule[]>();
     
-    mediaQueryGroups.forEach((mediaGroup, mediaKey) => {
-      mediaGroup.forEach((duplicateRules, declHash) => {
-        if (duplicateRules.length > 1 && duplicateRules[0].selector !== '/* COMMENT */') {
-          const firstDeclarations = duplicateRules[0].declarations;
-          const allIdentical = duplicateRules.every(rule => 
-            this.declarationsEqual(rule.declarations, firstDeclarations)
-          );
-          
-          if (allIdentical) {
-            const mergedSelectors = duplicateRules.map(r => r.selector).join(', ');
-            const firstRule = duplicateRules[0];
-            
-            mergedRules.push({
-              ...firstRule,
-              selector: mergedSelectors,
-              mediaQuery: mediaKey === 'default' ? undefined : mediaKey,
-              hash: `merged-${declHash}`
-            });
-            
-            console.log(`🔄 Merged ${duplicateRules.length} duplicate rules: ${mergedSelectors}`);
-          } else {
-            duplicateRules.forEach(rule => {
-              mergedRules.push({
-                ...rule,
-                mediaQuery: mediaKey === 'default' ? undefined : mediaKey
-              });
-            });
-          }
-        } else {
-          duplicateRules.forEach(rule => {
-            mergedRules.push({
-              ...rule,
-              mediaQuery: mediaKey === 'default' ? undefined : mediaKey
-            });
-          });
+    rules.forEach(rule => {
+      if (rule.selector.startsWith('@') || rule.selector === '/* COMMENT */') return;
+      if (rule.declarations.length < this.options.mixinMinDeclarations ||
+        rule.declarations.some(decl => decl.type !== 'declaration' || !decl.property || decl.property.startsWith('--'))) return;
+      
+      // Siblings share the at-rule context and the exact property sequence
+      const signature = rule.declarations.map(decl => `${decl.property}${decl.important ? '!important' : ''}`).join(';');
+      const key = `${this.getContextKey(rule.contexts)}|${signature}`;
+      groups.set(key, [...(groups.get(key) || []), rule]);
+    });
+    
+    groups.forEach(group => {
+      if (group.length < 2) return;
+      
+      const [first] = group;
+      const varying = first.declarations
+        .map((decl, index) => group.some(rule => rule.declarations[index].value !== decl.value) ? index : -1)
+        .filter(index => index !== -1);
+      
+      // Identical rules are left to duplicate detection, and something has to stay shared
+      if (varying.length === 0 || varying.length > MAX_VARIANT_PARAMETERS || varying.length === first.declarations.length) return;
+      
+      // A top-level comma would split one value into several arguments
+      if (group.some(rule => varying.some(index => this.hasTopLevelComma(rule.declarations[index].value)))) return;
+      
+      const parameters: string[] = [];
+      varying.forEach(index => {
+        const property = first.declarations[index].property!;
+        const baseName = `$${PARAMETER_NAMES[property] || property}`;
+        let parameter = baseName;
+        for (let counter = 2; parameters.includes(parameter); counter++) {
+          parameter = `${baseName}-${counter}`;
         }
+        parameters.push(parameter);
       });
+      
+      const name = this.generateVariantMixinName(group.map(rule => rule.selector), state);
+      state.mixins.set(name, {
+        name,
+        parameters,
+        declarations: first.declarations.map((decl, index) => {
+          const parameter = parameters[varying.indexOf(index)];
+          return parameter
+            ? { ...decl, value: parameter, originalValue: undefined, loc: undefined }
+            : { ...decl, loc: undefined };
+        }),
+        occurrences: group.length
+      });
+      
+      group.forEach(rule => {
+        const args = varying.map(index => rule.declarations[index].value).join(', ');
+        rule.declarations = [{ type: 'include', value: `${name}(${args})`, loc: rule.declarations[0].loc }];
+      });
+      
+      this.options.logger.info(`🧩 Extracted @mixin ${name}(${parameters.join(', ')}) for ${group.length} variants: ${group.map(rule => rule.selector).join(', ')}`);
+    });
+  }
+
+  private hasTopLevelComma(value: string): boolean {
+    let depth = 0;
+    for (const char of value) {
+      if (char === '(') depth++;
+      if (char === ')') depth--;
+      if (char === ',' && depth === 0) return true;
+    }
+    return false;
+  }
+
+  private generateVariantMixinName(selectors: string[], state: ConversionState): string {
+    // Named after what the variants have in common, e.g. .btn--primary and .btn--danger give btn-variant
+    const names = selectors.map(selector => selector.replace(/^[.#]/, '').replace(/[^a-zA-Z0-9_-]+/g, '-'));
+    let prefix = names[0];
+    names.forEach(name => {
+      while (!name.startsWith(prefix)) prefix = prefix.slice(0, -1);
     });
     
-    return mergedRules;
+    const baseName = `${prefix.replace(/[-_]+$/, '') || 'rule'}-variant`;
+    let name = baseName;
+    for (let counter = 1; state.mixins.has(name); counter++) {
+      name = `${baseName}-${counter}`;
+    }
+    return name;
   }
 
-  private generateDeclarationHash(declarations: Declaration[]): string {
-    return declarations
-      .filter(d => d.type === 'declaration')
-      .map(d => `${d.property}:${d.value}${d.important ? '!important' : ''}`)
-      .sort()
-      .join(';');
+  private canIncludeSubset(rule: ParsedRule, keys: string[], declarationKey: (decl: Declaration) => string): boolean {
+    // The subset is emitted where its first declaration was, so nothing in between may depend on the order
+    const positions = rule.declarations
+      .map((decl, index) => decl.type === 'declaration' && keys.includes(declarationKey(decl)) ? index : -1)
+      .filter(index => index !== -1);
+    const properties = positions.map(index => rule.declarations[index].property!);
+    
+    return rule.declarations
+      .slice(positions[0], positions[positions.length - 1] + 1)
+      .every(decl => decl.type !== 'declaration' || keys.includes(declarationKey(decl)) ||
+        !properties.some(property => this.propertiesOverlap(property, decl.property!)));
   }
 
-  private declarationsEqual(decls1: Declaration[], decls2: Declaration[]): boolean {
-    if (decls1.length !== decls2.length) return false;
+  private generateMixinName(declarations: Declaration[], state: ConversionState): string {
+    // Names describe the literal values, not the variables that replaced them
+    const valueOf = (decl: Declaration) => decl.originalValue || decl.value;
+    const has = (property: string, value: string) => declarations.some(decl => decl.property === property && valueOf(decl) === value);
+    
+    let baseName: string;
+    if (has('display', 'flex') && has('align-items', 'center') && has('justify-content', 'center')) {
+      baseName = 'flex-center';
+    } else if (has('overflow', 'hidden') && has('text-overflow', 'ellipsis') && has('white-space', 'nowrap')) {
+      baseName = 'truncate';
+    } else if (has('position', 'absolute') && has('top', '0') && has('left', '0')) {
+      baseName = 'absolute-fill';
+    } else {
+      const [first] = declarations;
+      const cleanValue = valueOf(first).replace(/[^a-zA-Z0-9]/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '').toLowerCase();
+      baseName = `${first.property}-${cleanValue}`.replace(/-+$/, '');
+    }
     
-    const hash1 = this.generateDeclarationHash(decls1);
-    const hash2 = this.generateDeclarationHash(decls2);
+    let name = baseName;
+    for (let counter = 1; state.mixins.has(name); counter++) {
+      name = `${baseName}-${counter}`;
+    }
+    return name;
+  }
+
+  private formatMixins(state: ConversionState): string {
+    let result = '// Mixins\n';
+    
+    if (state.usesPrefixMixin) {
+      result += `@mixin prefix($property, $value, $prefixes: ${VENDOR_PREFIXES.slice(0, 3).join(' ')}) {\n`;
+      result += `${this.getIndent(1)}@each $prefix in $prefixes {\n`;
+      result += `${this.getIndent(2)}-#{$prefix}-#{$property}: $value;\n`;
+      result += `${this.getIndent(1)}}\n`;
+      result += `${this.getIndent(1)}#{$property}: $value;\n`;
+      result += '}\n\n';
+    }
     
-    return hash1 === hash2;
+    state.mixins.forEach(mixin => {
+      const parameters = mixin.parameters.length > 0 ? `(${mixin.parameters.join(', ')})` : '';
+      result += `@mixin ${mixin.name}${parameters} {\n`;
+      mixin.declarations.forEach(decl => {
+        const important = decl.important ? ' !important' : '';
+        result += `${this.getIndent(1)}${decl.property}: ${decl.value}${important};\n`;
+      });
+      result += '}\n\n';
+    });
+    return result;
+  }
+
+  private formatPlaceholders(state: ConversionState): string {
+    let result = '// Placeholders\n';
+    state.placeholders.forEach(placeholder => {
+      let block = `${placeholder.name} {\n`;
+      placeholder.declarations.forEach(decl => {
+        if (decl.type === 'comment') {
+          block += `${this.getIndent(1)}/* ${decl.value} */\n`;
+        } else if (decl.property) {
+          const important = decl.important ? ' !important' : '';
+          block += `${this.getIndent(1)}${decl.property}: ${decl.value}${important};\n`;
+        }
+      });
+      block += '}\n';
+      
+      // Sass only extends within the same at-rule, so the placeholder lives in a copy of it
+      result += [...placeholder.contexts].reverse().reduce((content, context) => this.wrapInAtRule(content, context, state), block) + '\n';
+    });
+    return result;
   }
 
   private groupByMediaQuery(rules: ParsedRule[]): MediaQueryGroup[] {
-    const groups = new Map<string, ParsedRule[]>();
+    const groups = new Map<string, MediaQueryGroup>();
     
     rules.forEach(rule => {
-      const key = rule.mediaQuery || '';
+      const key = this.getContextKey(rule.contexts);
       if (!groups.has(key)) {
-        groups.set(key, []);
+        groups.set(key, { query: key, contexts: rule.contexts, rules: [] });
       }
-      groups.get(key)!.push(rule);
+      groups.get(key)!.rules.push(rule);
     });
     
-    return Array.from(groups.entries()).map(([query, rules]) => ({
-      query,
-      rules
-    }));
+    return Array.from(groups.values());
   }
 
-  private calculateSpecificity(selector: string): number[] {
-    const ids = (selector.match(/#/g) || []).length;
-    const classes = (selector.match(/\./g) || []).length;
-    const elements = selector.split(/[\s>+~]/).filter(s => s && !s.match(/[#.:]/) && s !== '').length;
-    return [ids, classes, elements];
+  private groupConsecutiveByContext(rules: ParsedRule[]): MediaQueryGroup[] {
+    // Without grouping, keep source order and only start a new group when the context changes
+    const groups: MediaQueryGroup[] = [];
+    
+    rules.forEach(rule => {
+      const key = this.getContextKey(rule.contexts);
+      const lastGroup = groups[groups.length - 1];
+      
+      if (lastGroup && lastGroup.query === key) {
+        lastGroup.rules.push(rule);
+      } else {
+        groups.push({ query: key, contexts: rule.contexts, rules: [rule] });
+      }
+    });
+    
+    return groups;
   }
 
   private buildAdvancedNestedStructure(rules: ParsedRule[]): NestedRule {
     const root: NestedRule = { selector: '', declarations: [], children: new Map() };
     
     if (this.options.enableBEM) {
-      return this.buildAdvancedBEMStructure(rules, root);
+      this.buildAdvancedBEMStructure(rules, root);
     } else if (this.options.enableSmartNesting) {
-      return this.buildSmartNestedStructure(rules, root);
+      this.buildSmartNestedStructure(rules, root);
     } else {
-      return this.buildBasicNestedStructure(rules, root);
+      this.buildBasicNestedStructure(rules, root);
     }
+    
+    this.nestKeyframes(root);
+    return root;
+  }
+
+  private createAtRuleNode(rule: ParsedRule): NestedRule {
+    const children = new Map<string, NestedRule>();
+    (rule.children || []).forEach(child => {
+      children.set(child.selector, {
+        selector: child.selector,
+        declarations: [...child.declarations],
+        children: new Map(),
+        loc: child.loc
+      });
+    });
+    
+    return {
+      selector: rule.selector,
+      declarations: [...rule.declarations],
+      children,
+      loc: rule.loc
+    };
+  }
+
+  // Sass bubbles a nested @keyframes back to the root, so one used by a single block can live inside it
+  private nestKeyframes(root: NestedRule): void {
+    root.children.forEach((node, key) => {
+      const name = this.getKeyframesName(node.selector);
+      if (!name) return;
+      
+      const users = Array.from(root.children.values())
+        .filter(child => !child.selector.startsWith('@') && this.usesAnimation(child, name));
+      if (users.length !== 1) return;
+      
+      root.children.delete(key);
+      users[0].children.set(key, node);
+    });
+  }
+
+  private usesAnimation(node: NestedRule, name: string): boolean {
+    return this.referencesAnimation(node.declarations, name) ||
+      Array.from(node.children.values()).some(child => this.usesAnimation(child, name));
+  }
+
+  private referencesAnimation(declarations: Declaration[], name: string): boolean {
+    return declarations.some(decl =>
+      decl.type === 'declaration' && !!decl.property && /^(-[a-z]+-)?animation(-name)?$/.test(decl.property) &&
+      decl.value.split(/[\s,]+/).includes(name)
+    );
+  }
+
+  private getKeyframesName(selector: string): string | null {
+    const match = selector.match(/^@(?:-[a-z]+-)?keyframes\s+(.+)$/i);
+    return match ? match[1].trim().replace(/^["']|["']$/g, '') : null;
   }
 
   // Include all other methods from UltimateCSSToSCSSConverter...
@@ -846,20 +2894,22 @@ export class VariableEnhancedCSSToSCSSConverter {
     
     // Add at-rules directly to root without nesting
     atRules.forEach(rule => {
-      const child: NestedRule = {
-        selector: rule.selector,
-        declarations: [...rule.declarations],
-        children: new Map()
-      };
-      root.children.set(rule.selector, child);
+      root.children.set(rule.hash || rule.selector, this.createAtRuleNode(rule));
     });
     
+    // Rules on the document element, such as custom properties on :root, stay ahead of the blocks using them
+    const documentRules = nonBemRules.filter(rule => /^(:root|html)\b/.test(rule.selector));
+    if (documentRules.length > 0) {
+      this.buildSmartNestedStructure(documentRules, root);
+    }
+    
     bemBlocks.forEach((blockRules, blockName) => {
       this.buildAdvancedBEMBlock(blockName, blockRules, root);
     });
     
-    if (nonBemRules.length > 0) {
-      this.buildSmartNestedStructure(nonBemRules, root);
+    const otherRules = nonBemRules.filter(rule => !documentRules.includes(rule));
+    if (otherRules.length > 0) {
+      this.buildSmartNestedStructure(otherRules, root);
     }
     
     return root;
@@ -898,6 +2948,8 @@ export class VariableEnhancedCSSToSCSSConverter {
           break;
       }
     });
+    
+    if (!blockNode.loc) blockNode.loc = rules[0]?.loc;
   }
 
   // Add other necessary methods...
@@ -912,9 +2964,9 @@ export class VariableEnhancedCSSToSCSSConverter {
           children: new Map()
         });
       }
-      blockNode.children.get(pseudoSelector)!.declarations.push(...rule.declarations);
+      this.appendRuleDeclarations(blockNode.children.get(pseudoSelector)!, rule);
     } else {
-      blockNode.declarations.push(...rule.declarations);
+      this.appendRuleDeclarations(blockNode, rule);
     }
   }
 
@@ -953,9 +3005,9 @@ export class VariableEnhancedCSSToSCSSConverter {
           children: new Map()
         });
       }
-      currentNode.children.get(pseudoSelector)!.declarations.push(...rule.declarations);
+      this.appendRuleDeclarations(currentNode.children.get(pseudoSelector)!, rule);
     } else {
-      currentNode.declarations.push(...rule.declarations);
+      this.appendRuleDeclarations(currentNode, rule);
     }
   }
 
@@ -985,9 +3037,9 @@ export class VariableEnhancedCSSToSCSSConverter {
           children: new Map()
         });
       }
-      modifierNode.children.get(pseudoSelector)!.declarations.push(...rule.declarations);
+      this.appendRuleDeclarations(modifierNode.children.get(pseudoSelector)!, rule);
     } else {
-      modifierNode.declarations.push(...rule.declarations);
+      this.appendRuleDeclarations(modifierNode, rule);
     }
   }
 
@@ -1039,9 +3091,9 @@ export class VariableEnhancedCSSToSCSSConverter {
           children: new Map()
         });
       }
-      modifierNode.children.get(pseudoSelector)!.declarations.push(...rule.declarations);
+      this.appendRuleDeclarations(modifierNode.children.get(pseudoSelector)!, rule);
     } else {
-      modifierNode.declarations.push(...rule.declarations);
+      this.appendRuleDeclarations(modifierNode, rule);
     }
   }
 
@@ -1096,7 +3148,8 @@ export class VariableEnhancedCSSToSCSSConverter {
     const parts = selector.split(/[\s>+~]/);
     const firstPart = parts[0].trim();
     
-    return firstPart.replace(/:[^,\s]+/g, '');
+    // Selectors made only of pseudo-classes, such as :root, are their own base
+    return firstPart.replace(/:[^,\s]+/g, '') || firstPart;
   }
 
   private buildSmartNestedGroup(basePattern: string, rules: ParsedRule[], root: NestedRule): void {
@@ -1110,12 +3163,7 @@ export class VariableEnhancedCSSToSCSSConverter {
     // Handle at-rules directly without nesting
     if (basePattern.startsWith('@')) {
       rules.forEach(rule => {
-        const child: NestedRule = {
-          selector: rule.selector,
-          declarations: [...rule.declarations],
-          children: new Map()
-        };
-        root.children.set(rule.selector, child);
+        root.children.set(rule.hash || rule.selector, this.createAtRuleNode(rule));
       });
       return;
     }
@@ -1139,12 +3187,12 @@ export class VariableEnhancedCSSToSCSSConverter {
     const selector = rule.selector;
     
     if (selector.includes(',')) {
-      baseNode.declarations.push(...rule.declarations);
+      this.appendRuleDeclarations(baseNode, rule);
       return;
     }
     
     if (selector === basePattern) {
-      baseNode.declarations.push(...rule.declarations);
+      this.appendRuleDeclarations(baseNode, rule);
     } else if (selector.startsWith(basePattern)) {
       const nestedPart = selector.substring(basePattern.length);
       const nestedSelector = `&${nestedPart}`;
@@ -1157,10 +3205,10 @@ export class VariableEnhancedCSSToSCSSConverter {
         });
       }
       
-      baseNode.children.get(nestedSelector)!.declarations.push(...rule.declarations);
+      this.appendRuleDeclarations(baseNode.children.get(nestedSelector)!, rule);
     } else {
       const parts = this.parseComplexSelector(selector, basePattern);
-      this.insertComplexNestedRule(parts, rule.declarations, baseNode);
+      this.insertComplexNestedRule(parts, rule, baseNode);
     }
   }
 
@@ -1175,7 +3223,7 @@ export class VariableEnhancedCSSToSCSSConverter {
     return parts;
   }
 
-  private insertComplexNestedRule(selectorParts: string[], declarations: Declaration[], parent: NestedRule): void {
+  private insertComplexNestedRule(selectorParts: string[], rule: ParsedRule, parent: NestedRule): void {
     let current = parent;
     
     selectorParts.forEach((part) => {
@@ -1190,7 +3238,13 @@ export class VariableEnhancedCSSToSCSSConverter {
       current = current.children.get(part)!;
     });
     
-    current.declarations.push(...declarations);
+    this.appendRuleDeclarations(current, rule);
+  }
+
+  private appendRuleDeclarations(node: NestedRule, rule: ParsedRule): void {
+    node.declarations.push(...rule.declarations);
+    // The first rule contributing to a node is where its selector comes from
+    if (!node.loc) node.loc = rule.loc;
   }
 
   private buildBasicNestedStructure(rules: ParsedRule[], root: NestedRule): NestedRule {
@@ -1200,13 +3254,167 @@ export class VariableEnhancedCSSToSCSSConverter {
         return;
       }
       
+      if (rule.selector.startsWith('@')) {
+        root.children.set(rule.hash || rule.selector, this.createAtRuleNode(rule));
+        return;
+      }
+      
       const parts = rule.selector.split(/\s+/).filter(p => p.length > 0);
-      this.insertComplexNestedRule(parts, rule.declarations, root);
+      this.insertComplexNestedRule(parts, rule, root);
     });
     
     return root;
   }
 
+  private formatMediaGroups(groups: MediaQueryGroup[], state: ConversionState, depth: number = 0): string {
+    let result = '';
+    let index = 0;
+    
+    while (index < groups.length) {
+      const group = groups[index];
+      
+      if (group.contexts.length <= depth) {
+        const nestedStructure = this.buildAdvancedNestedStructure(group.rules);
+        result += this.formatSCSS(nestedStructure, state);
+        index++;
+        continue;
+      }
+      
+      // Consecutive groups sharing the same at-rule at this depth go into one wrapper
+      const context = group.contexts[depth];
+      const contextKey = this.getContextKey([context]);
+      let end = index + 1;
+      while (end < groups.length && groups[end].contexts.length > depth &&
+        this.getContextKey([groups[end].contexts[depth]]) === contextKey) {
+        end++;
+      }
+      
+      const innerContent = this.formatMediaGroups(groups.slice(index, end), state, depth + 1);
+      result += this.wrapInAtRule(innerContent, context, state);
+      result += '\n';
+      index = end;
+    }
+    
+    return result;
+  }
+
+  private formatNestedMediaGroups(groups: MediaQueryGroup[], rules: ParsedRule[], state: ConversionState): string {
+    const baseRules: ParsedRule[] = [];
+    const nestedGroups: MediaQueryGroup[] = [];
+    const remainingGroups: MediaQueryGroup[] = [];
+    
+    // Base rules are output node by node, in the order each node first appears
+    const nodeKeys = new Map(rules.map(rule => [rule, this.buildAdvancedNestedStructure([rule]).children.keys().next().value]));
+    const nodeStarts = new Map<string | undefined, number>();
+    rules.forEach((rule, index) => {
+      if (rule.contexts.length === 0 && !nodeStarts.has(nodeKeys.get(rule))) nodeStarts.set(nodeKeys.get(rule), index);
+    });
+    
+    // A rule output after the base rules starting at nodeStart trades places with the base rules on either side;
+    // none of those may be able to override it
+    const findSwappedConflict = (rule: ParsedRule, nodeStart: number) => {
+      const index = rules.indexOf(rule);
+      const swapped = rules.filter((base, baseIndex) =>
+        base.contexts.length === 0 && (nodeStarts.get(nodeKeys.get(base))! <= nodeStart) !== (baseIndex < index)
+      );
+      return this.findCascadeConflict(swapped, 0, rule);
+    };
+    
+    // Nested rules end up after the base rules of their node, or after all of them without one
+    const keepsAfterBaseRules = (rule: ParsedRule) => {
+      if (rule.selector.startsWith('@')) return false;
+      
+      const conflict = findSwappedConflict(rule, nodeStarts.get(nodeKeys.get(rule)) ?? rules.length);
+      if (!conflict) return false;
+      if (!findSwappedConflict(rule, rules.length)) return true;
+      
+      const message = `${rule.selector} inside ${this.getContextKey(rule.contexts)} is nested out of order with ${conflict.rule.selector}, which also sets ${conflict.property}`;
+      this.addWarning(state, 'cascade-reordered', message, rule.loc, rule.selector);
+      return false;
+    };
+    
+    groups.forEach(group => {
+      if (group.contexts.length === 0) {
+        baseRules.push(...group.rules);
+      } else if (!group.contexts.every(context => NESTABLE_AT_RULES.includes(context.name.toLowerCase()))) {
+        remainingGroups.push(group);
+      } else {
+        // Rules that only stay in order after all base rules are kept in a block of their own
+        const kept = group.rules.filter(keepsAfterBaseRules);
+        
+        if (kept.length > 0) remainingGroups.push({ ...group, rules: kept });
+        nestedGroups.push({ ...group, rules: group.rules.filter(rule => !kept.includes(rule)) });
+      }
+    });
+    
+    const root = this.buildAdvancedNestedStructure(baseRules);
+    
+    // Place each media-scoped rule inside the node of its selector
+    nestedGroups.forEach(group => {
+      const contextStructure = this.buildAdvancedNestedStructure(group.rules);
+      if (contextStructure.declarations.length > 0) {
+        this.getContextWrapper(root, group.contexts).declarations.push(...contextStructure.declarations);
+      }
+      this.nestContextStructure(root, contextStructure, group.contexts);
+    });
+    
+    return this.formatSCSS(root, state) + this.formatMediaGroups(remainingGroups, state);
+  }
+
+  private nestContextStructure(target: NestedRule, source: NestedRule, contexts: AtRuleContext[]): void {
+    source.children.forEach((sourceChild, key) => {
+      // At-rules such as @keyframes cannot hold a nested media query, so wrap them instead
+      if (sourceChild.selector.startsWith('@')) {
+        this.getContextWrapper(target, contexts).children.set(key, sourceChild);
+        return;
+      }
+      
+      if (!target.children.has(key)) {
+        target.children.set(key, {
+          selector: sourceChild.selector,
+          declarations: [],
+          children: new Map(),
+          bemInfo: sourceChild.bemInfo,
+          loc: sourceChild.loc
+        });
+      }
+      
+      const targetChild = target.children.get(key)!;
+      
+      if (sourceChild.declarations.length > 0) {
+        this.getContextWrapper(targetChild, contexts).declarations.push(...sourceChild.declarations);
+      }
+      
+      this.nestContextStructure(targetChild, sourceChild, contexts);
+    });
+  }
+
+  private getContextWrapper(node: NestedRule, contexts: AtRuleContext[]): NestedRule {
+    let current = node;
+    
+    contexts.forEach(context => {
+      const header = this.getContextKey([context]);
+      
+      if (!current.children.has(header)) {
+        current.children.set(header, {
+          selector: header,
+          declarations: [],
+          children: new Map(),
+          loc: context.loc
+        });
+      }
+      
+      current = current.children.get(header)!;
+    });
+    
+    return current;
+  }
+
+  private wrapInAtRule(content: string, context: AtRuleContext, state: ConversionState): string {
+    const header = this.formatAtRuleHeader(context);
+    return `${this.sourceMarker(state, context.loc)}${header} {\n${this.indentContent(content.trimEnd() + '\n', 1)}}\n`;
+  }
+
   private indentContent(content: string, level: number): string {
     const indent = this.getIndent(level);
     return content
@@ -1215,14 +3423,14 @@ export class VariableEnhancedCSSToSCSSConverter {
       .join('\n');
   }
 
-  private formatSCSS(structure: NestedRule, depth: number = 0): string {
+  private formatSCSS(structure: NestedRule, state: ConversionState, depth: number = 0): string {
     let result = '';
     const indent = this.getIndent(depth);
     
     if (depth === 0 && structure.declarations.length > 0) {
       structure.declarations.forEach(decl => {
         if (decl.type === 'comment') {
-          result += `/* ${decl.value} */\n`;
+          result += `${this.sourceMarker(state, decl.loc)}/* ${decl.value} */\n`;
         }
       });
       if (structure.declarations.length > 0) result += '\n';
@@ -1239,51 +3447,29 @@ export class VariableEnhancedCSSToSCSSConverter {
     
     children.forEach(([selector, child]) => {
       if (child.declarations.length > 0 || child.children.size > 0) {
-        // Handle keyframes specially (including webkit-keyframes)
-        if (selector.startsWith('@keyframes') || selector.startsWith('@-webkit-keyframes')) {
-          result += `${indent}${selector} {\n`;
-          
-          child.declarations.forEach(decl => {
-            if (decl.property === '@keyframes-block') {
-              // Format keyframes block content properly
-              const keyframeContent = decl.value
-                .replace(/^\{|\}$/g, '') // Remove outer braces
-                .trim();
-              
-              // Parse and format keyframe rules using regex to properly split
-              const keyframeRules = keyframeContent.match(/(\d+%|from|to)\s*\{[^}]*\}/g);
-              if (keyframeRules) {
-                keyframeRules.forEach(rule => {
-                  const formatted = this.formatKeyframeRule(rule, depth + 1);
-                  result += formatted;
-                });
-              }
-            }
-          });
-          
-          result += `${indent}}\n\n`;
-          return;
-        }
-        
-        // Handle other at-rules (font-face, etc.)
-        if (selector.startsWith('@')) {
-          result += `${indent}${selector} {\n`;
+        // Handle other at-rules (font-face, keyframes, etc.), keyed by their identity; conditional wrappers are formatted like rules
+        if (child.selector.startsWith('@') && !this.isConditionalGroupSelector(child.selector)) {
+          result += `${indent}${this.sourceMarker(state, child.loc)}${child.selector} {\n`;
           
           child.declarations.forEach(decl => {
             if (decl.type === 'comment') {
-              result += `${this.getIndent(depth + 1)}/* ${decl.value} */\n`;
-            } else if (decl.property && decl.property !== '@keyframes-block') {
+              result += `${this.getIndent(depth + 1)}${this.sourceMarker(state, decl.loc)}/* ${decl.value} */\n`;
+            } else if (decl.property) {
               const important = decl.important ? ' !important' : '';
-              result += `${this.getIndent(depth + 1)}${decl.property}: ${decl.value}${important};\n`;
+              result += `${this.getIndent(depth + 1)}${this.sourceMarker(state, decl.loc)}${decl.property}: ${decl.value}${important};\n`;
             }
           });
           
-          result += `${indent}}\n\n`;
+          // Keyframe blocks
+          result += this.formatSCSS(child, state, depth + 1);
+          
+          result += `${indent}}\n`;
+          if (depth === 0) result += '\n';
           return;
         }
         
         // Handle regular CSS rules
-        result += `${indent}${selector} {\n`;
+        result += `${indent}${this.sourceMarker(state, child.loc)}${selector} {\n`;
         
         if (this.options.sortProperties) {
           child.declarations.sort((a, b) => {
@@ -1295,16 +3481,18 @@ export class VariableEnhancedCSSToSCSSConverter {
         
         child.declarations.forEach(decl => {
           if (decl.type === 'comment') {
-            result += `${this.getIndent(depth + 1)}/* ${decl.value} */\n`;
+            result += `${this.getIndent(depth + 1)}${this.sourceMarker(state, decl.loc)}/* ${decl.value} */\n`;
+          } else if (decl.type === 'include' || decl.type === 'extend') {
+            result += `${this.getIndent(depth + 1)}${this.sourceMarker(state, decl.loc)}@${decl.type} ${decl.value};\n`;
           } else if (decl.property) {
             const important = decl.important ? ' !important' : '';
-            result += `${this.getIndent(depth + 1)}${decl.property}: ${decl.value}${important};\n`;
+            result += `${this.getIndent(depth + 1)}${this.sourceMarker(state, decl.loc)}${decl.property}: ${decl.value}${important};\n`;
           }
         });
         
         if (child.children.size > 0) {
           if (child.declarations.length > 0) result += '\n';
-          result += this.formatSCSS(child, depth + 1);
+          result += this.formatSCSS(child, state, depth + 1);
         }
         
         result += `${indent}}\n`;
@@ -1315,29 +3503,10 @@ export class VariableEnhancedCSSToSCSSConverter {
     return result;
   }
 
-  private formatKeyframeRule(rule: string, depth: number): string {
-    const indent = this.getIndent(depth);
-    const match = rule.match(/^([\d%]+|from|to)\s*\{(.+)\}$/s);
-    
-    if (!match) return '';
-    
-    const [, keyframe, declarations] = match;
-    let result = `${indent}${keyframe} {\n`;
-    
-    // Parse declarations
-    const declPairs = declarations.split(';').filter(d => d.trim());
-    const seenProps = new Set<string>();
-    
-    declPairs.forEach(decl => {
-      const [prop, value] = decl.split(':').map(s => s.trim());
-      if (prop && value && !seenProps.has(prop)) {
-        seenProps.add(prop);
-        result += `${this.getIndent(depth + 1)}${prop}: ${value};\n`;
-      }
-    });
-    
-    result += `${indent}}\n\n`;
-    return result;
+  // Breakpoint mixin calls such as @include respond-to(md) wrap rules the way the @media they replace did
+  private isConditionalGroupSelector(selector: string): boolean {
+    const match = selector.match(/^@([\w-]+)/);
+    return match !== null && (match[1] === 'include' || CONDITIONAL_GROUP_AT_RULES.includes(match[1].toLowerCase()));
   }
 
   private getIndent(depth: number): string {
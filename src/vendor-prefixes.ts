@@ -0,0 +1,52 @@
+import postcss, { AtRule, Declaration, Node, Root } from 'postcss';
+import autoprefixer from 'autoprefixer';
+
+export const VENDOR_PREFIXES = ['webkit', 'moz', 'ms', 'o'];
+
+export function splitVendorPrefix(property: string): { prefix: string; property: string } | null {
+  const match = property.match(/^-(webkit|moz|ms|o)-(.+)$/);
+  return match ? { prefix: match[1], property: match[2] } : null;
+}
+
+// Properties autoprefixer knows prefixed forms of, from the caniuse data it ships with
+export function isPrefixedProperty(property: string): boolean {
+  return !property.startsWith('@') && autoprefixer.data.prefixes[property] !== undefined;
+}
+
+// Positions ("line:column", 0-based column) of the prefixed declarations the target browsers no longer need
+export function findOutdatedPrefixes(css: string, browsers?: string): Set<string> {
+  const collect = (root: Root) => {
+    const positions: string[] = [];
+    root.walkDecls(decl => {
+      if (decl.source?.start) positions.push(positionOf(decl));
+    });
+    return positions;
+  };
+
+  const root = postcss.parse(css);
+  const before = collect(root);
+
+  // Without a target autoprefixer reads the project's browserslist config, falling back to its defaults
+  const plugin = autoprefixer({ add: false, remove: true, ...(browsers ? { overrideBrowserslist: browsers } : {}) });
+  const after = new Set(collect(postcss([plugin]).process(root, { from: undefined }).root));
+
+  return new Set(before.filter(position => !after.has(position)));
+}
+
+// Applies the converter's removal to a parsed stylesheet; @keyframes blocks are copied as they are, so they keep theirs
+export function removeOutdatedPrefixes(root: Root, browsers?: string): void {
+  const outdated = findOutdatedPrefixes(root.toString(), browsers);
+
+  root.walkDecls(decl => {
+    if (!decl.source?.start || !outdated.has(positionOf(decl))) return;
+    
+    for (let parent: Node | undefined = decl.parent; parent; parent = parent.parent) {
+      if (parent.type === 'atrule' && /keyframes$/i.test((parent as AtRule).name)) return;
+    }
+    decl.remove();
+  });
+}
+
+function positionOf(decl: Declaration): string {
+  return `${decl.source!.start!.line}:${decl.source!.start!.column - 1}`;
+}
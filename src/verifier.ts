@@ -0,0 +1,948 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import postcss, { AtRule, ChildNode, Container, Declaration as PostcssDeclaration, Root, Rule } from 'postcss';
+import * as postcssScss from 'postcss-scss';
+import * as csstree from 'css-tree';
+import { parseColor, adjustColor, formatHexColor, RGBAColor } from './color';
+import { removeOutdatedPrefixes } from './vendor-prefixes';
+import { calculateSpecificity, countNestingSelectors, replaceNestingSelectors } from './selectors';
+
+export interface VerificationDifference {
+  type: 'missing-rule' | 'extra-rule' | 'missing-declaration' | 'extra-declaration' | 'value-mismatch' | 'cascade-order';
+  context: string;
+  selector: string;
+  property?: string;
+  expected?: string;
+  actual?: string;
+  message: string;
+}
+
+export interface VerificationResult {
+  equivalent: boolean;
+  differences: VerificationDifference[];
+}
+
+export interface VerifierOptions {
+  inlineCustomProperties?: boolean; // Compare against the input with its :root custom properties substituted
+  removeOutdatedPrefixes?: boolean; // Compare against the input without the prefixes the target browsers no longer need
+  browsers?: string;
+  cssImportsAsUse?: boolean; // A plain @use 'path' stands for the @import of path.css it was converted from
+  loadPaths?: string[]; // Directories @use and @forward resolve modules against, such as the output directory of a batch run
+}
+
+interface FlatDeclaration {
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+interface FlatRule {
+  context: string[];
+  selectors: string[];
+  declarations: FlatDeclaration[];
+  order: number;
+  isAtRule: boolean;
+}
+
+interface EffectiveDeclaration {
+  value: string;
+  important: boolean;
+  order: number;
+}
+
+interface EffectiveRule {
+  context: string;
+  selector: string;
+  layer: string;
+  specificity: number[];
+  declarations: Map<string, EffectiveDeclaration>;
+}
+
+interface FlattenState {
+  rules: FlatRule[];
+  order: number;
+  resolveSass: boolean;
+  mixins: Map<string, MixinDefinition>;
+  extensions: Extension[];
+  anonymousLayers: number;
+  loadedModules: Map<string, Map<string, string>>; // Variables of each loaded module by path
+  moduleDirectories: string[]; // Directories of the modules being loaded, innermost last
+}
+
+interface Extension {
+  placeholder: string;
+  context: string[];
+  selectors: string[];
+}
+
+interface MixinDefinition {
+  body: AtRule;
+  parameters: { name: string; defaultValue?: string }[];
+}
+
+interface WalkScope {
+  selectors: string[];
+  context: string[];
+  childContext: string[];
+  isAtRule: boolean;
+  variables: Map<string, string>[];
+  content?: MixinContent; // Block passed to the mixin being expanded
+}
+
+interface MixinContent {
+  block: AtRule;
+  variables: Map<string, string>[];
+  content?: MixinContent;
+}
+
+const CONDITIONAL_AT_RULES = ['media', 'supports', 'container', 'layer', 'document', '-moz-document', 'scope', 'starting-style'];
+const KEYFRAMES_AT_RULES = ['keyframes', '-webkit-keyframes', '-moz-keyframes', '-o-keyframes'];
+const SASS_AT_RULES = ['use', 'forward', 'mixin', 'include', 'function', 'return', 'extend', 'content', 'debug', 'warn', 'error', 'each', 'for', 'if', 'else', 'while'];
+
+export class EquivalenceVerifier {
+  private options: Required<VerifierOptions>;
+
+  constructor(options: VerifierOptions = {}) {
+    this.options = {
+      inlineCustomProperties: options.inlineCustomProperties || false,
+      removeOutdatedPrefixes: options.removeOutdatedPrefixes || false,
+      browsers: options.browsers || '',
+      cssImportsAsUse: options.cssImportsAsUse || false,
+      loadPaths: options.loadPaths || []
+    };
+  }
+
+  verify(cssContent: string, scssContent: string): VerificationResult {
+    const input = postcss.parse(cssContent);
+    if (this.options.inlineCustomProperties) {
+      this.inlineCustomProperties(input);
+    }
+    if (this.options.removeOutdatedPrefixes) {
+      removeOutdatedPrefixes(input, this.options.browsers || undefined);
+    }
+    
+    const expected = this.flatten(input, false);
+    const actual = this.flatten(postcssScss.parse(scssContent), true);
+    
+    const differences = [
+      ...this.compareStyleRules(expected, actual),
+      ...this.compareAtRules(expected, actual)
+    ];
+    
+    return {
+      equivalent: differences.length === 0,
+      differences
+    };
+  }
+
+  private inlineCustomProperties(root: Root): void {
+    // Same rule as the converter: only properties defined nowhere but on a top-level :root are inlined
+    const values = new Map<string, string>();
+    const overridden = new Set<string>();
+    
+    root.walkDecls(decl => {
+      if (!decl.prop.startsWith('--')) return;
+      
+      const parent = decl.parent;
+      if (parent && parent.type === 'rule' && parent.parent === root && (parent as Rule).selector.trim() === ':root') {
+        values.set(decl.prop, decl.value.trim());
+      } else {
+        overridden.add(decl.prop);
+      }
+    });
+    overridden.forEach(property => values.delete(property));
+    
+    if (values.size === 0) return;
+    
+    const substitute = (value: string, depth: number = 0): string => value.replace(/var\(\s*(--[\w-]+)\s*(?:,[^()]*(?:\([^()]*\)[^()]*)*)?\)/g, (match, property: string) => {
+      const resolved = values.get(property);
+      return resolved === undefined || depth > 10 ? match : substitute(resolved, depth + 1);
+    });
+    
+    root.walkDecls(decl => {
+      const parent = decl.parent;
+      if (values.has(decl.prop) && parent && parent.parent === root) {
+        decl.remove();
+        if (parent.nodes && parent.nodes.length === 0) parent.remove();
+        return;
+      }
+      decl.value = substitute(decl.value);
+    });
+  }
+
+  private flatten(root: Container, resolveSass: boolean): FlatRule[] {
+    const state: FlattenState = { rules: [], order: 0, resolveSass, mixins: new Map(), extensions: [], anonymousLayers: 0, loadedModules: new Map(), moduleDirectories: [] };
+    
+    this.walkNodes(root, {
+      selectors: [],
+      context: [],
+      childContext: [],
+      isAtRule: false,
+      variables: [new Map()]
+    }, state);
+    
+    return resolveSass ? this.applyExtensions(state) : state.rules;
+  }
+
+  // Extending selectors join the placeholder rule where it is defined; placeholders themselves emit nothing
+  private applyExtensions(state: FlattenState): FlatRule[] {
+    return state.rules
+      .map(rule => {
+        const selectors = rule.selectors.flatMap(selector => {
+          const placeholders = selector.match(/%[\w-]+/g);
+          if (!placeholders) return [selector];
+          
+          return placeholders.reduce((expanded, placeholder) => expanded.flatMap(current => state.extensions
+            .filter(extension => extension.placeholder === placeholder && extension.context.join('|') === rule.context.join('|'))
+            .flatMap(extension => extension.selectors.map(extending => current.split(placeholder).join(extending)))
+          ), [selector]);
+        });
+        return { ...rule, selectors };
+      })
+      .filter(rule => rule.selectors.length > 0);
+  }
+
+  private walkNodes(container: Container, scope: WalkScope, state: FlattenState): void {
+    let current: FlatRule | null = null;
+    
+    // Included mixin bodies are visited in place, with their arguments bound as variables
+    const visit = (node: ChildNode, variables: Map<string, string>[], content: MixinContent | undefined) => {
+      if (node.type === 'decl') {
+        if (state.resolveSass && node.prop.startsWith('$')) {
+          this.assignVariable(node, variables);
+          return;
+        }
+        
+        if (scope.selectors.length === 0) return;
+        
+        if (!current) {
+          current = {
+            context: scope.context,
+            selectors: scope.selectors,
+            declarations: [],
+            order: state.order++,
+            isAtRule: scope.isAtRule
+          };
+          state.rules.push(current);
+        }
+        
+        current.declarations.push({
+          property: (state.resolveSass ? this.resolveInterpolation(node.prop, variables) : node.prop).toLowerCase(),
+          value: this.normalizeValue(state.resolveSass ? this.resolveDeclarationValue(node, variables) : node.value),
+          important: node.important === true
+        });
+        return;
+      }
+      
+      if (node.type === 'rule') {
+        current = null;
+        this.walkRule(node, { ...scope, variables, content }, state);
+        return;
+      }
+      
+      if (node.type !== 'atrule') return;
+      
+      if (state.resolveSass && node.name === 'mixin') {
+        this.defineMixin(node, state);
+        return;
+      }
+      
+      if (state.resolveSass && node.name === 'extend') {
+        const placeholder = node.params.replace(/!optional/, '').trim();
+        if (scope.selectors.length > 0) {
+          state.extensions.push({ placeholder, context: scope.context, selectors: scope.selectors });
+        }
+        return;
+      }
+      
+      if (state.resolveSass && node.name === 'include') {
+        const expansion = this.expandMixin(node, variables, state);
+        if (expansion) {
+          const block = node.nodes ? { block: node, variables, content } : undefined;
+          expansion.body.each(child => {
+            visit(child, [...variables, expansion.bindings], block);
+          });
+        }
+        return;
+      }
+      
+      if (state.resolveSass && node.name === 'each') {
+        const loop = node.params.match(/^\$([\w-]+)\s+in\s+(.+)$/s);
+        if (!loop) return;
+        this.resolveValue(loop[2], variables).split(/[\s,]+/).filter(item => item.length > 0).forEach(item => {
+          node.each(child => {
+            visit(child, [...variables, new Map([[loop[1], item]])], content);
+          });
+        });
+        return;
+      }
+      
+      // @content runs in the scope of the @include that passed it
+      if (state.resolveSass && node.name === 'content') {
+        const block = content;
+        block?.block.each(child => {
+          visit(child, block.variables, block.content);
+        });
+        return;
+      }
+      
+      current = null;
+      this.walkAtRule(node, { ...scope, variables, content }, state);
+    };
+    
+    container.each(node => {
+      visit(node, scope.variables, scope.content);
+    });
+  }
+
+  private defineMixin(atRule: AtRule, state: FlattenState): void {
+    const match = atRule.params.trim().match(/^([\w-]+)\s*(?:\((.*)\))?$/s);
+    if (!match) return;
+    
+    const parameters = match[2] ? this.splitArguments(match[2]).filter(parameter => parameter.length > 0).map(parameter => {
+      const [name, ...defaultValue] = parameter.split(':');
+      return {
+        name: name.trim().replace(/^\$/, ''),
+        defaultValue: defaultValue.length > 0 ? defaultValue.join(':').trim() : undefined
+      };
+    }) : [];
+    
+    state.mixins.set(match[1], { body: atRule, parameters });
+  }
+
+  private expandMixin(atRule: AtRule, variables: Map<string, string>[], state: FlattenState): { body: AtRule; bindings: Map<string, string> } | null {
+    // Mixins of used modules are shared, so `ns.name` finds the same definition as `name`
+    const match = atRule.params.trim().match(/^(?:[\w-]+\.)?([\w-]+)\s*(?:\((.*)\))?$/s);
+    const mixin = match ? state.mixins.get(match[1]) : undefined;
+    if (!match || !mixin) return null;
+    
+    const bindings = new Map<string, string>();
+    const args = match[2] ? this.splitArguments(match[2]).filter(arg => arg.length > 0) : [];
+    
+    args.forEach((arg, index) => {
+      const keyword = arg.match(/^\$([\w-]+)\s*:\s*(.+)$/s);
+      if (keyword) {
+        bindings.set(keyword[1], this.resolveValue(keyword[2], variables));
+      } else if (mixin.parameters[index]) {
+        bindings.set(mixin.parameters[index].name, this.resolveValue(arg, variables));
+      }
+    });
+    
+    mixin.parameters.forEach(parameter => {
+      if (!bindings.has(parameter.name) && parameter.defaultValue !== undefined) {
+        bindings.set(parameter.name, this.resolveValue(parameter.defaultValue, [...variables, bindings]));
+      }
+    });
+    
+    return { body: mixin.body, bindings };
+  }
+
+  private walkRule(rule: Rule, scope: WalkScope, state: FlattenState): void {
+    const ownSelectors = rule.selectors.map(selector =>
+      state.resolveSass ? this.resolveInterpolation(selector, scope.variables) : selector
+    );
+    const parentSelectors = scope.isAtRule ? [] : scope.selectors;
+    
+    this.walkNodes(rule, {
+      selectors: state.resolveSass
+        ? this.resolveSassSelectors(parentSelectors, ownSelectors)
+        : this.resolveNativeSelectors(parentSelectors, ownSelectors),
+      context: scope.childContext,
+      childContext: scope.childContext,
+      isAtRule: false,
+      variables: [...scope.variables, new Map()],
+      content: scope.content
+    }, state);
+  }
+
+  // Sass writes a nested selector out once per parent, every `&` standing for that parent
+  private resolveSassSelectors(parents: string[], selectors: string[]): string[] {
+    if (parents.length === 0) return selectors.map(selector => selector.trim());
+    
+    return selectors.flatMap(selector => parents.map(parent => countNestingSelectors(selector) > 0
+      ? replaceNestingSelectors(selector.trim(), parent.trim())
+      : `${parent.trim()} ${selector.trim()}`));
+  }
+
+  // CSS nesting reads `&` as :is(<parents>); a selector without `&` is relative to the parent.
+  // It is only compared written out per parent where that cannot change what matches or how specific it is
+  private resolveNativeSelectors(parents: string[], selectors: string[]): string[] {
+    if (parents.length === 0) return selectors.map(selector => selector.trim());
+    
+    const specificities = parents.map(parent => calculateSpecificity(parent).join(','));
+    const sameSpecificity = specificities.every(specificity => specificity === specificities[0]);
+    const withoutGroups = (selector: string) => selector.replace(/\([^()]*(?:\([^()]*\)[^()]*)*\)|\[[^\]]*\]/g, '');
+    const compoundParents = parents.every(parent => !/[\s>+~]/.test(withoutGroups(parent.trim())));
+    
+    return selectors.flatMap(nested => {
+      const selector = countNestingSelectors(nested) > 0 ? nested.trim() : `& ${nested.trim()}`;
+      const uses = countNestingSelectors(selector);
+      const writeOut = sameSpecificity && (uses === 1
+        ? selector.startsWith('&') || compoundParents
+        : parents.length === 1 && compoundParents);
+      
+      return writeOut
+        ? parents.map(parent => replaceNestingSelectors(selector, parent.trim()))
+        : [replaceNestingSelectors(selector, `:is(${parents.map(parent => parent.trim()).join(', ')})`)];
+    });
+  }
+
+  private walkAtRule(atRule: AtRule, scope: WalkScope, state: FlattenState): void {
+    const name = atRule.name.toLowerCase();
+    
+    // Built-in modules and modules loaded "as" a namespace are never converted imports
+    const module = atRule.params.trim().match(/^(["'])([^"':]+)\1$/);
+    if (state.resolveSass && name === 'use' && module && this.options.cssImportsAsUse) {
+      state.rules.push({
+        context: scope.childContext,
+        selectors: [`@import ${this.normalizePrelude('import', `url("${module[2]}.css")`)}`],
+        declarations: [],
+        order: state.order++,
+        isAtRule: true
+      });
+      return;
+    }
+    
+    if (state.resolveSass && (name === 'use' || name === 'forward')) {
+      this.loadModule(atRule, scope, state);
+      return;
+    }
+    
+    if (state.resolveSass && SASS_AT_RULES.includes(name)) return;
+    
+    let params = state.resolveSass ? this.resolveInterpolation(atRule.params, scope.variables) : atRule.params;
+    
+    // Media feature values are SassScript, e.g. (min-width: map-get($breakpoints, md) - .02px)
+    if (state.resolveSass && name === 'media') {
+      params = this.evaluateArithmetic(this.resolveValue(params, scope.variables));
+    }
+    let label = params.trim() ? `@${name} ${this.normalizePrelude(name, params)}` : `@${name}`;
+    
+    // Anonymous layers are numbered in order, so merging two of them shows up as a difference
+    if (name === 'layer' && !params.trim() && atRule.nodes) label += ` #${++state.anonymousLayers}`;
+    const variables = [...scope.variables, new Map<string, string>()];
+    
+    // Statement at-rules such as @import or @charset have no block
+    if (!atRule.nodes) {
+      state.rules.push({
+        context: scope.childContext,
+        selectors: [label],
+        declarations: [],
+        order: state.order++,
+        isAtRule: true
+      });
+      return;
+    }
+    
+    if (CONDITIONAL_AT_RULES.includes(name)) {
+      const context = [...scope.childContext, label];
+      this.walkNodes(atRule, {
+        selectors: scope.isAtRule ? [] : scope.selectors,
+        context,
+        childContext: context,
+        isAtRule: false,
+        variables,
+        content: scope.content
+      }, state);
+      return;
+    }
+    
+    if (KEYFRAMES_AT_RULES.includes(name)) {
+      const context = [...scope.childContext, label];
+      this.walkNodes(atRule, { selectors: [], context, childContext: context, isAtRule: true, variables }, state);
+      return;
+    }
+    
+    // Descriptor at-rules (@font-face, @page, ...) hold their own declarations
+    this.walkNodes(atRule, {
+      selectors: [label],
+      context: scope.childContext,
+      childContext: [...scope.childContext, label],
+      isAtRule: true,
+      variables
+    }, state);
+  }
+
+  // A module's CSS is emitted once, where it is first loaded; its variables are visible under its namespace
+  private loadModule(atRule: AtRule, scope: WalkScope, state: FlattenState): void {
+    const match = atRule.params.trim().match(/^(["'])([^"':]+)\1(?:\s+as\s+([\w-]+|\*))?/);
+    const path = match ? this.resolveModulePath(match[2], state) : null;
+    if (!match || !path) return;
+    
+    let variables = state.loadedModules.get(path);
+    if (!variables) {
+      variables = new Map();
+      state.loadedModules.set(path, variables);
+      state.moduleDirectories.push(dirname(path));
+      this.walkNodes(postcssScss.parse(readFileSync(path, 'utf-8')), {
+        selectors: [],
+        context: scope.childContext,
+        childContext: scope.childContext,
+        isAtRule: false,
+        variables: [variables]
+      }, state);
+      state.moduleDirectories.pop();
+    }
+    
+    // @forward passes the members on to whoever uses this module, as if they were its own
+    const namespace = atRule.name.toLowerCase() === 'forward' || match[3] === '*' ? '' : `${match[3] || match[2].split('/').pop()!.replace(/^_/, '')}.`;
+    const target = scope.variables[scope.variables.length - 1];
+    variables.forEach((value, name) => target.set(`${namespace}${name}`, value));
+  }
+
+  private resolveModulePath(url: string, state: FlattenState): string | null {
+    const directories = [...state.moduleDirectories.slice(-1), ...this.options.loadPaths];
+    const file = url.split('/').pop()!;
+    const directory = url.slice(0, url.length - file.length);
+    const candidates = [`${directory}_${file}.scss`, `${url}.scss`, `${url}/_index.scss`, `${url}/index.scss`];
+    
+    for (const base of directories) {
+      const found = candidates.map(candidate => join(base, candidate)).find(candidate => existsSync(candidate));
+      if (found) return found;
+    }
+    return null;
+  }
+
+  private assignVariable(decl: PostcssDeclaration, variables: Map<string, string>[]): void {
+    const name = decl.prop.slice(1);
+    let value = decl.value;
+    const isDefault = /!default\b/.test(value);
+    const isGlobal = /!global\b/.test(value);
+    value = value.replace(/\s*!(default|global)\b/g, '').trim();
+    
+    if (isDefault && this.lookupVariable(name, variables) !== undefined) return;
+    
+    const target = isGlobal ? variables[0] : variables[variables.length - 1];
+    target.set(name, this.resolveValue(value, variables));
+  }
+
+  private lookupVariable(name: string, variables: Map<string, string>[]): string | undefined {
+    for (let i = variables.length - 1; i >= 0; i--) {
+      if (variables[i].has(name)) return variables[i].get(name);
+    }
+    return undefined;
+  }
+
+  private resolveDeclarationValue(decl: PostcssDeclaration, variables: Map<string, string>[]): string {
+    // Sass only evaluates interpolation inside custom property values
+    return decl.prop.startsWith('--')
+      ? this.resolveInterpolation(decl.value, variables).trim()
+      : this.resolveValue(decl.value, variables);
+  }
+
+  private resolveValue(value: string, variables: Map<string, string>[]): string {
+    const interpolated = this.resolveInterpolation(value, variables);
+    // Keyword arguments such as `$lightness: -8%` are not variable references
+    const resolved = interpolated.replace(/(?:(?<![\w-])(-?[a-zA-Z_][\w-]*)\.)?\$(-?[a-zA-Z_][\w-]*)(?!\s*:)/g, (match, namespace: string | undefined, name: string) => {
+      const variable = this.lookupVariable(namespace ? `${namespace}.${name}` : name, variables);
+      return variable !== undefined ? variable : match;
+    });
+    return this.evaluateFunctions(resolved);
+  }
+
+  private evaluateFunctions(value: string): string {
+    const pattern = /(?<![\w.-])(darken|lighten|rgba|color\.adjust|map-get|map\.get)\(/g;
+    let result = '';
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    
+    while ((match = pattern.exec(value))) {
+      const open = match.index + match[0].length;
+      const close = this.findClosingParen(value, open);
+      if (close === -1) break;
+      
+      // Arguments are evaluated first so nested calls see plain colors
+      const args = this.splitArguments(value.slice(open, close)).map(arg => this.evaluateFunctions(arg));
+      const evaluated = match[1].endsWith('get') ? this.evaluateMapGet(args) : this.evaluateColorFunction(match[1], args);
+      
+      result += value.slice(lastIndex, match.index) + (evaluated || value.slice(match.index, close + 1));
+      lastIndex = close + 1;
+      pattern.lastIndex = close + 1;
+    }
+    
+    return result + value.slice(lastIndex);
+  }
+
+  private evaluateColorFunction(name: string, args: string[]): string | null {
+    const color = args.length > 0 ? parseColor(args[0]) : null;
+    if (!color) return null;
+    
+    const amount = (arg: string | undefined) => arg !== undefined && /^-?[\d.]+%?$/.test(arg) ? parseFloat(arg) : null;
+    
+    if (name === 'darken' || name === 'lighten') {
+      const lightness = amount(args[1]);
+      if (lightness === null || args.length !== 2) return null;
+      return formatHexColor(adjustColor(color, { lightness: name === 'darken' ? -lightness : lightness }));
+    }
+    
+    if (name === 'rgba') {
+      // rgba($color, $alpha) is Sass; the three and four argument forms are plain CSS
+      const alpha = amount(args[1]);
+      if (alpha === null || args.length !== 2) return null;
+      return formatHexColor({ ...color, a: args[1].endsWith('%') ? alpha / 100 : alpha });
+    }
+    
+    const adjustment: { lightness?: number; alpha?: number } = {};
+    for (const arg of args.slice(1)) {
+      const keyword = arg.match(/^\$(lightness|alpha)\s*:\s*(.+)$/);
+      const value = keyword ? amount(keyword[2].trim()) : null;
+      if (!keyword || value === null) return null;
+      adjustment[keyword[1] as 'lightness' | 'alpha'] = value;
+    }
+    return formatHexColor(adjustColor(color, adjustment));
+  }
+
+  private evaluateMapGet(args: string[]): string | null {
+    const [map, key] = args;
+    if (args.length !== 2 || !map.startsWith('(') || !map.endsWith(')')) return null;
+    
+    const unquote = (text: string) => text.trim().replace(/^(['"])(.*)\1$/, '$2');
+    for (const entry of this.splitArguments(map.slice(1, -1))) {
+      const separator = entry.indexOf(':');
+      if (separator !== -1 && unquote(entry.slice(0, separator)) === unquote(key)) {
+        return entry.slice(separator + 1).trim();
+      }
+    }
+    return null;
+  }
+
+  // Only sums and differences of two numbers with the same unit, as breakpoint mixins write them
+  private evaluateArithmetic(value: string): string {
+    return value.replace(/(-?\d*\.?\d+)([a-z%]*)\s+([-+])\s+(\d*\.?\d+)([a-z%]*)/gi, (match, left: string, leftUnit: string, operator: string, right: string, rightUnit: string) => {
+      if (leftUnit && rightUnit && leftUnit !== rightUnit) return match;
+      const result = operator === '-' ? parseFloat(left) - parseFloat(right) : parseFloat(left) + parseFloat(right);
+      return `${Math.round(result * 1000) / 1000}${leftUnit || rightUnit}`;
+    });
+  }
+
+  private findClosingParen(text: string, start: number): number {
+    let depth = 1;
+    for (let i = start; i < text.length; i++) {
+      if (text[i] === '(') depth++;
+      if (text[i] === ')' && --depth === 0) return i;
+    }
+    return -1;
+  }
+
+  private splitArguments(text: string): string[] {
+    const args: string[] = [];
+    let depth = 0;
+    let current = '';
+    
+    for (const char of text) {
+      if (char === '(') depth++;
+      if (char === ')') depth--;
+      if (char === ',' && depth === 0) {
+        args.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    
+    args.push(current.trim());
+    return args;
+  }
+
+  private resolveInterpolation(text: string, variables: Map<string, string>[]): string {
+    return text.replace(/#\{([^}]*)\}/g, (_match, expression: string) => {
+      return this.resolveValue(expression.trim(), variables);
+    });
+  }
+
+  private normalizeSelector(selector: string): string {
+    try {
+      return csstree.generate(csstree.parse(selector, { context: 'selector' }));
+    } catch {
+      return selector.replace(/\s+/g, ' ').trim();
+    }
+  }
+
+  private normalizeValue(value: string): string {
+    try {
+      const ast = csstree.parse(value, { context: 'value' });
+      csstree.walk(ast, (node: csstree.CssNode) => {
+        if (node.type === 'Hash') {
+          node.value = node.value.toLowerCase();
+        }
+        // .3s, 0.3s and 0.30s are the same number; Sass always writes the leading zero
+        if ((node.type === 'Number' || node.type === 'Dimension' || node.type === 'Percentage') && isFinite(Number(node.value))) {
+          node.value = String(Number(node.value));
+        }
+      });
+      return csstree.generate(ast);
+    } catch {
+      return value.replace(/\s+/g, ' ').trim();
+    }
+  }
+
+  private valuesEqual(expected: string, actual: string): boolean {
+    if (expected === actual) return true;
+    
+    // Colors are compared by value, so #fff, white and an evaluated Sass color function can match
+    const expectedColors: RGBAColor[] = [];
+    const actualColors: RGBAColor[] = [];
+    const withoutColors = (value: string, colors: RGBAColor[]) => value.replace(/#[0-9a-fA-F]+|\b(?:rgba?|hsla?)\([^()]*\)|\b[a-zA-Z]+\b/g, token => {
+      const color = parseColor(token);
+      if (!color) return token;
+      colors.push(color);
+      return '\u0000';
+    });
+    
+    if (withoutColors(expected, expectedColors) !== withoutColors(actual, actualColors)) return false;
+    
+    // Channels must be the same after rounding; alpha may differ by the rounding of its 8-bit hex form
+    return expectedColors.every((color, index) => {
+      const other = actualColors[index];
+      return Math.round(color.r) === Math.round(other.r) && Math.round(color.g) === Math.round(other.g) &&
+        Math.round(color.b) === Math.round(other.b) && Math.abs(color.a - other.a) <= 1 / 255;
+    });
+  }
+
+  private normalizePrelude(name: string, params: string): string {
+    // @import "a.css" and @import url(a.css) are the same import
+    if (name === 'import') params = params.replace(/^\s*(["'])(.*?)\1/, 'url("$2")');
+    
+    try {
+      return csstree.generate(csstree.parse(params, { context: 'atrulePrelude', atrule: name }));
+    } catch {
+      return params.replace(/\s+/g, ' ').trim();
+    }
+  }
+
+  private buildEffectiveRules(rules: FlatRule[]): Map<string, EffectiveRule> {
+    const effective = new Map<string, EffectiveRule>();
+    
+    rules.forEach(rule => {
+      if (rule.isAtRule && rule.selectors.every(selector => selector.startsWith('@'))) return;
+      
+      const context = rule.context.join(' ');
+      const layer = rule.context.filter(entry => entry.startsWith('@layer')).join(' ');
+      
+      rule.selectors.forEach(rawSelector => {
+        const selector = this.normalizeSelector(rawSelector);
+        const key = `${context}|${selector}`;
+        
+        if (!effective.has(key)) {
+          effective.set(key, {
+            context,
+            selector,
+            layer,
+            specificity: calculateSpecificity(selector),
+            declarations: new Map()
+          });
+        }
+        
+        const target = effective.get(key)!;
+        rule.declarations.forEach(decl => {
+          const existing = target.declarations.get(decl.property);
+          if (existing && existing.important && !decl.important) return;
+          
+          target.declarations.set(decl.property, {
+            value: decl.value,
+            important: decl.important,
+            order: rule.order
+          });
+        });
+      });
+    });
+    
+    return effective;
+  }
+
+  private compareStyleRules(expectedRules: FlatRule[], actualRules: FlatRule[]): VerificationDifference[] {
+    const differences: VerificationDifference[] = [];
+    const expected = this.buildEffectiveRules(expectedRules);
+    const actual = this.buildEffectiveRules(actualRules);
+    
+    expected.forEach((rule, key) => {
+      const other = actual.get(key);
+      const where = this.describeLocation(rule.context, rule.selector);
+      
+      if (!other) {
+        differences.push({
+          type: 'missing-rule',
+          context: rule.context,
+          selector: rule.selector,
+          message: `Missing rule ${where}`
+        });
+        return;
+      }
+      
+      rule.declarations.forEach((decl, property) => {
+        const otherDecl = other.declarations.get(property);
+        const expectedValue = this.formatDeclarationValue(decl);
+        
+        if (!otherDecl) {
+          differences.push({
+            type: 'missing-declaration',
+            context: rule.context,
+            selector: rule.selector,
+            property,
+            expected: expectedValue,
+            message: `Missing declaration '${property}: ${expectedValue}' in ${where}`
+          });
+          return;
+        }
+        
+        const actualValue = this.formatDeclarationValue(otherDecl);
+        if (!this.valuesEqual(expectedValue, actualValue)) {
+          differences.push({
+            type: 'value-mismatch',
+            context: rule.context,
+            selector: rule.selector,
+            property,
+            expected: expectedValue,
+            actual: actualValue,
+            message: `Value of '${property}' in ${where} is '${actualValue}', expected '${expectedValue}'`
+          });
+        }
+      });
+      
+      other.declarations.forEach((decl, property) => {
+        if (rule.declarations.has(property)) return;
+        
+        const actualValue = this.formatDeclarationValue(decl);
+        differences.push({
+          type: 'extra-declaration',
+          context: rule.context,
+          selector: rule.selector,
+          property,
+          actual: actualValue,
+          message: `Unexpected declaration '${property}: ${actualValue}' in ${where}`
+        });
+      });
+    });
+    
+    actual.forEach((rule, key) => {
+      if (expected.has(key)) return;
+      
+      differences.push({
+        type: 'extra-rule',
+        context: rule.context,
+        selector: rule.selector,
+        message: `Unexpected rule ${this.describeLocation(rule.context, rule.selector)}`
+      });
+    });
+    
+    return [...differences, ...this.compareCascadeOrder(expected, actual)];
+  }
+
+  private compareCascadeOrder(expected: Map<string, EffectiveRule>, actual: Map<string, EffectiveRule>): VerificationDifference[] {
+    const differences: VerificationDifference[] = [];
+    const byProperty = new Map<string, string[]>();
+    
+    // Only declarations that survived with the same value can be compared by position
+    expected.forEach((rule, key) => {
+      const other = actual.get(key);
+      if (!other || rule.context.includes('keyframes')) return;
+      
+      rule.declarations.forEach((decl, property) => {
+        const otherDecl = other.declarations.get(property);
+        if (!otherDecl || !this.valuesEqual(this.formatDeclarationValue(decl), this.formatDeclarationValue(otherDecl))) return;
+        
+        if (!byProperty.has(property)) {
+          byProperty.set(property, []);
+        }
+        byProperty.get(property)!.push(key);
+      });
+    });
+    
+    byProperty.forEach((keys, property) => {
+      for (let i = 0; i < keys.length; i++) {
+        for (let j = i + 1; j < keys.length; j++) {
+          const first = expected.get(keys[i])!;
+          const second = expected.get(keys[j])!;
+          const firstDecl = first.declarations.get(property)!;
+          const secondDecl = second.declarations.get(property)!;
+          
+          if (first.layer !== second.layer) continue;
+          if (firstDecl.important !== secondDecl.important) continue;
+          if (this.valuesEqual(this.formatDeclarationValue(firstDecl), this.formatDeclarationValue(secondDecl))) continue;
+          if (first.specificity.join(',') !== second.specificity.join(',')) continue;
+          
+          const expectedOrder = Math.sign(firstDecl.order - secondDecl.order);
+          const actualOrder = Math.sign(
+            actual.get(keys[i])!.declarations.get(property)!.order -
+            actual.get(keys[j])!.declarations.get(property)!.order
+          );
+          
+          if (expectedOrder !== actualOrder) {
+            const [earlier, later] = expectedOrder < 0 ? [first, second] : [second, first];
+            differences.push({
+              type: 'cascade-order',
+              context: later.context,
+              selector: later.selector,
+              property,
+              message: `Cascade order of '${property}' changed: ${this.describeLocation(earlier.context, earlier.selector)} now comes after ${this.describeLocation(later.context, later.selector)}`
+            });
+          }
+        }
+      }
+    });
+    
+    return differences;
+  }
+
+  private compareAtRules(expectedRules: FlatRule[], actualRules: FlatRule[]): VerificationDifference[] {
+    const differences: VerificationDifference[] = [];
+    const expected = this.countAtRules(expectedRules);
+    const actual = this.countAtRules(actualRules);
+    
+    expected.forEach((entry, key) => {
+      const actualCount = actual.get(key)?.count || 0;
+      for (let i = actualCount; i < entry.count; i++) {
+        differences.push({
+          type: 'missing-rule',
+          context: entry.context,
+          selector: entry.selector,
+          message: `Missing at-rule ${this.describeLocation(entry.context, entry.selector)}`
+        });
+      }
+    });
+    
+    actual.forEach((entry, key) => {
+      const expectedCount = expected.get(key)?.count || 0;
+      for (let i = expectedCount; i < entry.count; i++) {
+        differences.push({
+          type: 'extra-rule',
+          context: entry.context,
+          selector: entry.selector,
+          message: `Unexpected at-rule ${this.describeLocation(entry.context, entry.selector)}`
+        });
+      }
+    });
+    
+    return differences;
+  }
+
+  private countAtRules(rules: FlatRule[]): Map<string, { context: string; selector: string; count: number }> {
+    const counts = new Map<string, { context: string; selector: string; count: number }>();
+    
+    rules.forEach(rule => {
+      if (!rule.isAtRule || !rule.selectors.every(selector => selector.startsWith('@'))) return;
+      
+      const context = rule.context.join(' ');
+      const selector = rule.selectors.join(', ');
+      const body = rule.declarations
+        .map(decl => `${decl.property}:${this.formatDeclarationValue(decl)}`)
+        .join(';');
+      const key = `${context}|${selector}|${body}`;
+      
+      if (!counts.has(key)) {
+        counts.set(key, { context, selector, count: 0 });
+      }
+      counts.get(key)!.count++;
+    });
+    
+    return counts;
+  }
+
+  private formatDeclarationValue(decl: { value: string; important: boolean }): string {
+    return decl.important ? `${decl.value} !important` : decl.value;
+  }
+
+  private describeLocation(context: string, selector: string): string {
+    return context ? `'${selector}' inside '${context}'` : `'${selector}'`;
+  }
+}